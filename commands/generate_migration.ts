@@ -0,0 +1,85 @@
+/*
+|--------------------------------------------------------------------------
+| better-auth:generate
+|--------------------------------------------------------------------------
+|
+| Writes a migration for the better-auth schema of `#start/auth`: every
+| table on a fresh database, or only what plugins added since the last
+| migration. Nothing is written when the database is already in sync.
+|
+|   node ace better-auth:generate
+|   node ace better-auth:generate --name=add_organization --connection=auth
+|   node ace better-auth:generate --dry-run
+|
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, isAbsolute, relative } from 'node:path'
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+
+// Import types — triggers the `better_auth` container binding augmentation
+import type {} from '../providers/lucid_better_auth_provider.js'
+
+export default class GenerateMigration extends BaseCommand {
+  static commandName = 'better-auth:generate'
+  static description = 'Generate a Lucid migration for the better-auth schema'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.boolean({ description: 'Print the migration instead of writing it' })
+  declare dryRun: boolean
+
+  @flags.string({ description: 'Path of the migration file, relative to the app root' })
+  declare file?: string
+
+  @flags.string({ description: 'Migration name, used in the default file name' })
+  declare name?: string
+
+  @flags.string({ description: 'Lucid connection to introspect and run the migration on' })
+  declare connection?: string
+
+  async run() {
+    const auth = await this.app.container.make('better_auth')
+    const { adapter } = await auth.$context
+
+    if (typeof adapter.options?.generateMigration !== 'function') {
+      this.logger.error('The better-auth instance is not using the better-lucid adapter')
+      this.exitCode = 1
+      return
+    }
+
+    const { code, path, inSync } = await adapter.options.generateMigration({
+      file: this.file,
+      name: this.name,
+      connection: this.connection,
+    })
+
+    if (inSync) {
+      this.logger.info('The better-auth schema is already in sync with the database')
+      return
+    }
+
+    if (this.dryRun) {
+      this.logger.log(code)
+      return
+    }
+
+    const filePath = isAbsolute(path) ? path : this.app.makePath(path)
+    try {
+      await mkdir(dirname(filePath), { recursive: true })
+      await writeFile(filePath, code, { flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      this.logger.error(`${path} already exists`)
+      this.exitCode = 1
+      return
+    }
+
+    this.logger.success(`Created ${relative(this.app.makePath(), filePath)}`)
+    this.logger.info(
+      `Run it with: node ace migration:run${this.connection ? ` --connection=${this.connection}` : ''}`
+    )
+  }
+}
@@ -0,0 +1,44 @@
+/*
+|--------------------------------------------------------------------------
+| Ace commands loader
+|--------------------------------------------------------------------------
+|
+| Registered in adonisrc.ts by the configure hook:
+|   commands: [() => import('better-lucid/commands')]
+|
+| Commands are imported only when ace lists or runs them.
+|
+*/
+
+import type { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandMetaData } from '@adonisjs/core/types/ace'
+
+const commands: Record<string, () => Promise<{ default: typeof BaseCommand }>> = {
+  'better-auth:generate': () => import('./generate_migration.js'),
+  'better-auth:prune': () => import('./prune_expired.js'),
+  'better-auth:purge': () => import('./purge_soft_deleted.js'),
+  'better-auth:reencrypt': () => import('./reencrypt_fields.js'),
+}
+
+/**
+ * Returns the metadata of every command the package ships.
+ */
+export async function getMetaData(): Promise<CommandMetaData[]> {
+  return Promise.all(
+    Object.values(commands).map(async (load) => {
+      const { default: command } = await load()
+      return command.serialize()
+    })
+  )
+}
+
+/**
+ * Imports the command class for the given metadata.
+ */
+export async function getCommand(metaData: CommandMetaData): Promise<typeof BaseCommand | null> {
+  const load = commands[metaData.commandName]
+  if (!load) return null
+
+  const { default: command } = await load()
+  return command
+}
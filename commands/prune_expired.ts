@@ -0,0 +1,79 @@
+/*
+|--------------------------------------------------------------------------
+| better-auth:prune
+|--------------------------------------------------------------------------
+|
+| Deletes expired sessions and verification rows, which better-auth only
+| removes when they are read again. With `--plugins`, expired rows of
+| plugin models with an `expiresAt` field go as well. Schedule it, or
+| register `pruneExpired` with a scheduler:
+|
+|   node ace better-auth:prune --batch-size=500 --session-days=7
+|   node ace better-auth:prune --plugins --dry-run
+|
+*/
+
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import type { PruneResult } from '../src/adapter.js'
+
+// Import types — triggers the `better_auth` container binding augmentation
+import type {} from '../providers/lucid_better_auth_provider.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export default class PruneExpired extends BaseCommand {
+  static commandName = 'better-auth:prune'
+  static description = 'Delete expired sessions, verification rows and plugin rows'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.number({ description: 'Rows deleted per statement', default: 1000 })
+  declare batchSize: number
+
+  @flags.boolean({ description: 'Report what would be deleted without deleting it' })
+  declare dryRun: boolean
+
+  @flags.number({ description: 'Days a session is kept after it expired', default: 0 })
+  declare sessionDays: number
+
+  @flags.number({ description: 'Days a verification row is kept after it expired', default: 0 })
+  declare verificationDays: number
+
+  @flags.boolean({ description: 'Also prune expired rows of plugin models' })
+  declare plugins: boolean
+
+  @flags.number({ description: 'Days a plugin row is kept after it expired', default: 0 })
+  declare pluginDays: number
+
+  async run() {
+    const auth = await this.app.container.make('better_auth')
+    const { adapter } = await auth.$context
+
+    if (typeof adapter.options?.pruneExpired !== 'function') {
+      this.logger.error('The better-auth instance is not using the better-lucid adapter')
+      this.exitCode = 1
+      return
+    }
+
+    const pruned: PruneResult = await adapter.options.pruneExpired({
+      batchSize: this.batchSize,
+      dryRun: this.dryRun,
+      plugins: this.plugins,
+      olderThan: {
+        session: this.sessionDays * DAY,
+        verification: this.verificationDays * DAY,
+        plugins: this.pluginDays * DAY,
+      },
+    })
+
+    for (const [model, count] of Object.entries(pruned)) {
+      this.logger.info(`${model}: ${count} row(s)`)
+    }
+    const total = Object.values(pruned).reduce((sum, count) => sum + count, 0)
+    this.logger.success(
+      this.dryRun ? `Would prune ${total} expired row(s)` : `Pruned ${total} expired row(s)`
+    )
+  }
+}
@@ -0,0 +1,44 @@
+/*
+|--------------------------------------------------------------------------
+| better-auth:purge
+|--------------------------------------------------------------------------
+|
+| Permanently deletes rows of the adapter's `softDelete` models once they
+| have been soft-deleted for longer than the retention window. Schedule it
+| to enforce the grace period:
+|
+|   node ace better-auth:purge --days=30
+|
+*/
+
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+
+// Import types — triggers the `better_auth` container binding augmentation
+import type {} from '../providers/lucid_better_auth_provider.js'
+
+export default class PurgeSoftDeleted extends BaseCommand {
+  static commandName = 'better-auth:purge'
+  static description = 'Permanently delete soft-deleted auth rows past the retention window'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.number({ description: 'Days a row stays soft-deleted before it is purged', default: 30 })
+  declare days: number
+
+  async run() {
+    const auth = await this.app.container.make('better_auth')
+    const { adapter } = await auth.$context
+
+    if (typeof adapter.options?.purgeSoftDeleted !== 'function') {
+      this.logger.error('The better-auth instance is not using the better-lucid adapter')
+      this.exitCode = 1
+      return
+    }
+
+    const cutoff = new Date(Date.now() - this.days * 24 * 60 * 60 * 1000)
+    const purged: number = await adapter.options.purgeSoftDeleted(cutoff)
+    this.logger.success(`Purged ${purged} soft-deleted row(s)`)
+  }
+}
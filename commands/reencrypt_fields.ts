@@ -0,0 +1,43 @@
+/*
+|--------------------------------------------------------------------------
+| better-auth:reencrypt
+|--------------------------------------------------------------------------
+|
+| Rewrites the `encryptFields` columns with the current encryption key.
+| Run it after prepending a new key to the adapter's `encryption` list;
+| once it completes, the old keys can be dropped. Values stored before
+| encryption was enabled are encrypted as well. Encrypted values no
+| configured key can decrypt are left as they are and reported.
+|
+*/
+
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+
+// Import types — triggers the `better_auth` container binding augmentation
+import type {} from '../providers/lucid_better_auth_provider.js'
+
+export default class ReencryptFields extends BaseCommand {
+  static commandName = 'better-auth:reencrypt'
+  static description = 'Re-encrypt the adapter encryptFields columns with the current key'
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  async run() {
+    const auth = await this.app.container.make('better_auth')
+    const { adapter } = await auth.$context
+
+    if (typeof adapter.options?.reencryptFields !== 'function') {
+      this.logger.error('The better-auth instance is not using the better-lucid adapter')
+      this.exitCode = 1
+      return
+    }
+
+    const { rewritten, undecryptable } = await adapter.options.reencryptFields()
+    this.logger.success(`Re-encrypted ${rewritten} row(s)`)
+    if (undecryptable > 0) {
+      this.logger.warning(`Skipped ${undecryptable} value(s) that no configured key can decrypt`)
+    }
+  }
+}
@@ -4,8 +4,8 @@
 |--------------------------------------------------------------------------
 |
 | Called when a user runs `node ace configure better-lucid`.
-| This script creates the migration file and registers the provider
-| and named middleware in the user's AdonisJS project.
+| This script creates the migration file and registers the provider,
+| ace commands and named middleware in the user's AdonisJS project.
 |
 */
 
@@ -37,10 +37,11 @@ export async function configure(command: ConfigureCommand) {
   })
 
   /**
-   * Step 2: Register the service provider in adonisrc.ts
+   * Step 2: Register the service provider and ace commands in adonisrc.ts
    */
   await codemods.updateRcFile((rcFile) => {
     rcFile.addProvider('better-lucid/lucid_better_auth_provider')
+    rcFile.addCommand('better-lucid/commands')
   })
 
   /**
@@ -66,10 +67,9 @@ export async function configure(command: ConfigureCommand) {
   command.logger.info(
     '  Plugins add tables and columns automatically. After updating start/auth.ts'
   )
-  command.logger.info('  with plugins, regenerate an incremental migration via your auth instance:')
+  command.logger.info('  with plugins, generate an incremental migration:')
   command.logger.info('')
-  command.logger.info('    const result = await auth.api.generateSchema()')
-  command.logger.info('    // writes a new migration to database/migrations/')
+  command.logger.info('    node ace better-auth:generate')
   command.logger.info('')
   command.logger.info('  The generator diffs your live DB against the config and emits only the')
   command.logger.info('  changes (ALTER TABLE ADD COLUMN, CREATE TABLE). Removals are emitted as')
@@ -14,6 +14,39 @@
 |
 */
 
-export { lucidAdapter } from './src/adapter.js'
-export type { LucidAdapterConfig } from './src/adapter.js'
-export type { BetterAuthContext, BetterAuthSession, BetterAuthUser } from './src/types.js'
+export { lucidAdapter, paginate, paginationCursor, pruneExpired } from './src/adapter.js'
+export { adonisCacheStore, memoryStore, redisStore } from './src/cache.js'
+export type { CacheStore, SessionCacheConfig } from './src/cache.js'
+export {
+  ConstraintViolationError,
+  ForeignKeyConstraintError,
+  NotNullConstraintError,
+  QueryTimeoutError,
+  UniqueConstraintError,
+} from './src/errors.js'
+export type { ConstraintViolation } from './src/errors.js'
+export type {
+  AuditConfig,
+  IdStrategy,
+  LucidAdapterConfig,
+  LucidDialect,
+  NamingStrategy,
+  Page,
+  PaginateOptions,
+  PaginationSort,
+  PruneOptions,
+  PruneResult,
+  ReadReplicaConfig,
+  RetryConfig,
+  TimeoutConfig,
+  RlsConfig,
+  RlsPolicyConfig,
+  RlsSettings,
+  TenantConfig,
+} from './src/adapter.js'
+export type {
+  BetterAuthContext,
+  BetterAuthSession,
+  BetterAuthUser,
+  BetterLucidQueryEvent,
+} from './src/types.js'
@@ -18,10 +18,37 @@
 |
 */
 
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'node:crypto'
+import { setTimeout as sleep } from 'node:timers/promises'
 import { createAdapterFactory } from 'better-auth/adapters'
+import { APIError } from 'better-auth/api'
+import { getAuthTables } from 'better-auth/db'
+import type { BetterAuthOptions } from 'better-auth'
 import type { Database } from '@adonisjs/lucid/database'
-import type { CleanedWhere } from 'better-auth/adapters'
+import type { QueryClientContract, TransactionClientContract } from '@adonisjs/lucid/types/database'
+import type { LucidModel } from '@adonisjs/lucid/types/model'
+import type {
+  AdapterFactoryConfig,
+  AdapterFactoryCustomizeAdapterCreator,
+  CleanedWhere,
+  DBAdapter,
+  JoinConfig,
+  Where,
+} from 'better-auth/adapters'
 import type { BetterAuthDBSchema, DBFieldAttribute } from '@better-auth/core/db'
+import type { EmitterService } from '@adonisjs/core/types'
+import type { Logger } from '@adonisjs/core/logger'
+import type { Encryption } from '@adonisjs/core/encryption'
+import type { BetterLucidQueryEvent } from './types.js'
+import { memoryStore } from './cache.js'
+import {
+  ForeignKeyConstraintError,
+  NotNullConstraintError,
+  QueryTimeoutError,
+  UniqueConstraintError,
+} from './errors.js'
+import type { SessionCacheConfig } from './cache.js'
 
 export type LucidAdapterConfig = {
   /**
@@ -35,428 +62,2819 @@ export type LucidAdapterConfig = {
    * @default false
    */
   usePlural?: boolean
+
+  /**
+   * The SQL dialect of the Lucid connection. Controls RETURNING support,
+   * JSON/boolean/date handling, catalog introspection and migration column types.
+   * @default detected from `db.connection().dialect.name`
+   */
+  dialect?: LucidDialect
+
+  /**
+   * Name of the Lucid connection (from `config/database.ts`) that holds the
+   * auth tables. CRUD, transactions and schema introspection all run on it,
+   * and generated migrations are tagged with it.
+   * @default the default connection of the `db` service
+   */
+  connection?: string
+
+  /**
+   * Route reads (`findOne`, `findMany`, `count`) to the connection's read
+   * replicas and writes to the primary. Reads of a model stay on the primary
+   * for a short window after the adapter writes to it, and always inside
+   * transactions, so a freshly created session is never missed on a lagging
+   * replica.
+   * @default undefined (Lucid's default routing)
+   */
+  readReplicas?: ReadReplicaConfig
+
+  /**
+   * Database schema (Postgres or MSSQL) that holds the auth tables. CRUD
+   * queries qualify table names with it, introspection reads from it, and
+   * generated migrations create it and build their tables inside it.
+   * @default undefined (`public` on Postgres, the default schema on MSSQL)
+   */
+  schema?: string
+
+  /**
+   * Prefix added to every auth table name (e.g. "auth_" → "auth_user"), to
+   * keep better-auth's tables clear of existing ones.
+   * @default ''
+   */
+  tablePrefix?: string
+
+  /**
+   * Explicit table name per better-auth model key, e.g. `{ user: 'auth_users' }`.
+   * Takes precedence over `tablePrefix` and `usePlural` for the mapped models.
+   * @default {}
+   */
+  tables?: Record<string, string>
+
+  /**
+   * How better-auth field keys map to column names: `'snake_case'`
+   * (`emailVerified` → `email_verified`), `'camelCase'` (keys used as-is) or
+   * a custom function. Applied to migrations and, symmetrically, to insert
+   * and update payloads, where clauses, `sortBy` and returned rows. Fields
+   * with an explicit `fieldName` keep it.
+   * @default 'snake_case'
+   */
+  namingStrategy?: NamingStrategy
+
+  /**
+   * Compare strings case-insensitively in `eq`, `ne`, `in`, `not_in` and the
+   * LIKE-family operators: `true` for every field, or the field keys per
+   * model, e.g. `{ user: ['email'] }`. Where clauses better-auth itself marks
+   * `mode: 'insensitive'` are always compared case-insensitively.
+   * @default false
+   */
+  caseInsensitive?: boolean | Record<string, string[]>
+
+  /**
+   * Store `string[]` and `number[]` fields in native Postgres `text[]` /
+   * `integer[]` columns instead of JSON strings, and query them with array
+   * containment: `contains` matches rows holding every given value (`@>`),
+   * `in` rows holding any of them (`&&`). Postgres only.
+   * @default false
+   */
+  nativeArrays?: boolean
+
+  /**
+   * Primary-key strategy. `'string'` stores better-auth's generated string
+   * IDs, `'uuid'` uses `uuid` columns (defaulting to `gen_random_uuid()` on
+   * Postgres and `newid()` on MSSQL) and `'serial'` lets the database assign
+   * auto-incrementing `bigIncrements` IDs. Foreign-key columns referencing an
+   * `id` follow the same type.
+   * @default 'string'
+   */
+  idStrategy?: IdStrategy
+
+  /**
+   * AdonisJS emitter. Every adapter operation emits a `better_lucid:query`
+   * event carrying the model, operation, table, duration, row count and
+   * error, for tracing and metrics.
+   * @default undefined (no events)
+   */
+  emitter?: EmitterService
+
+  /**
+   * AdonisJS logger. With `debugLogs`, operations are logged through it at
+   * debug level, with sensitive values redacted, instead of to the console.
+   * @default undefined (better-auth's console logger)
+   */
+  logger?: Logger
+
+  /**
+   * Extra field names whose values are redacted from debug logs, on top of
+   * passwords, tokens and secrets.
+   * @default []
+   */
+  redact?: string[]
+
+  /**
+   * Cache session-by-token and user-by-id lookups, the two reads behind every
+   * `auth.api.getSession` call. Entries are invalidated when the adapter
+   * updates or deletes the rows. Pass `{}` for an in-process LRU, or a
+   * `store` (`redisStore`, `adonisCacheStore`) to share it between processes.
+   * Cannot be combined with `rls`; with `audit`, audited writes drop their
+   * entries once their transaction commits.
+   * @default undefined (no caching)
+   */
+  cache?: SessionCacheConfig
+
+  /**
+   * Lucid models backing better-auth models, by model key, e.g.
+   * `{ user: () => import('#models/user') }`. For mapped models `create`,
+   * `update` and `delete` go through `Model.create()`,
+   * `model.merge().save()` and `model.delete()`, so hooks run. Model
+   * properties must be named after the better-auth fields; `@column.dateTime()`
+   * properties receive luxon `DateTime`s. Unmapped models, reads and the
+   * `*Many` operations keep using the query builder.
+   * @default {}
+   */
+  models?: Record<string, () => Promise<{ default: LucidModel }>>
+
+  /**
+   * Field keys stored encrypted at rest, per model, e.g.
+   * `{ account: ['accessToken', 'refreshToken', 'idToken'] }`. Values are
+   * encrypted on create/update and decrypted in returned rows; values no
+   * key can decrypt (rows written before encryption was enabled) are
+   * returned as-is. Requires `encryption`.
+   * @default undefined
+   */
+  encryptFields?: Record<string, string[]>
+
+  /**
+   * The AdonisJS encryption service used for `encryptFields`. Pass a list to
+   * rotate keys: the first instance encrypts, every instance is tried when
+   * decrypting. `node ace better-auth:reencrypt` rewrites existing values
+   * with the first one.
+   * @default undefined
+   */
+  encryption?: Encryption | Encryption[]
+
+  /**
+   * Model keys whose rows are soft-deleted, e.g. `['user', 'session']`.
+   * `delete`/`deleteMany` set a `deletedAt` column instead of removing rows,
+   * and every other operation ignores rows that have one. The generator adds
+   * the column; `node ace better-auth:purge` removes the rows for good.
+   * Soft deletes are plain updates, so delete hooks of mapped `models` do
+   * not run.
+   * @default []
+   */
+  softDelete?: string[]
+
+  /**
+   * Record every `create`, `update`, `updateMany`, `delete` and `deleteMany`
+   * in an audit log table, in the same transaction as the write. Entries
+   * hold the model, operation, affected ids, the written fields (sensitive
+   * values redacted, as in debug logs) and a timestamp. The generator
+   * creates the table.
+   * @default false
+   */
+  audit?: boolean | AuditConfig
+
+  /**
+   * Scope every query to the current tenant: where clauses get
+   * `<column> = <tenant>` and creates stamp the column. The generator adds
+   * the column and makes unique fields unique per tenant, e.g.
+   * `(tenant_id, email)`.
+   * @default undefined
+   */
+  tenant?: TenantConfig
+
+  /**
+   * Postgres only: run every operation in a transaction that first applies
+   * the settings `rls.settings()` returns, transaction-locally as `SET LOCAL`
+   * would, so row-level security policies can read them with
+   * `current_setting()`. The generator can emit baseline policies.
+   * @default undefined
+   */
+  rls?: RlsConfig
+
+  /**
+   * Re-run operations that fail with a deadlock or serialization failure.
+   * Reads, updates and deletes are retried on their own; creates only when
+   * they run in a transaction of their own (with `audit` or `rls`). A
+   * better-auth `transaction` is retried by re-running its whole callback.
+   * `true` uses the defaults of `RetryConfig`.
+   * @default false
+   */
+  retry?: boolean | RetryConfig
+
+  /**
+   * Abort queries that run too long, so a slow query cannot hold a pool
+   * connection. Each query of an operation gets the limit of its kind; on
+   * Postgres and MySQL the query is also cancelled on the server. Operations
+   * that time out throw a `QueryTimeoutError`. `true` uses the defaults of
+   * `TimeoutConfig`.
+   * @default false
+   */
+  timeouts?: boolean | TimeoutConfig
+}
+
+export type RlsConfig = {
+  /**
+   * Returns the settings for the current operation, e.g.
+   * `{ 'app.tenant_id': tenantId, 'app.role': 'member' }`. Null and undefined
+   * values are skipped.
+   */
+  settings: () => RlsSettings | Promise<RlsSettings>
+
+  /**
+   * Enable row-level security on every generated table, with a baseline
+   * policy: rows of tenant-scoped tables are visible when their tenant column
+   * matches `tenantSetting` (default `'app.tenant_id'`), rows of other tables
+   * always. `role` restricts the policies to one database role.
+   * @default false
+   */
+  policies?: boolean | RlsPolicyConfig
+}
+
+export type RlsSettings = Record<string, string | number | boolean | null | undefined>
+
+export type RlsPolicyConfig = {
+  tenantSetting?: string
+  role?: string
+}
+
+export type TenantConfig = {
+  /**
+   * Tenant column of the scoped tables.
+   * @default 'tenant_id'
+   */
+  column?: string
+
+  /**
+   * Type of the tenant column in generated migrations.
+   * @default 'string'
+   */
+  type?: 'string' | 'number'
+
+  /**
+   * Returns the current tenant, e.g. from AsyncLocalStorage or
+   * `HttpContext.get()`. Operations on scoped models throw when it returns
+   * null or undefined.
+   */
+  resolve: () => string | number | null | undefined
+
+  /**
+   * Model keys to scope.
+   * @default every model
+   */
+  models?: string[]
+
+  /**
+   * Tenant written to the existing rows of a table when a generated
+   * migration adds the tenant column to it. Required for existing tables,
+   * since the column is not nullable.
+   */
+  backfill?: string | number
+}
+
+export type AuditConfig = {
+  /**
+   * Name of the audit log table.
+   * @default 'auth_audit_log'
+   */
+  table?: string
+
+  /**
+   * Model keys to audit.
+   * @default every model
+   */
+  models?: string[]
+}
+
+export type RetryConfig = {
+  /**
+   * Attempts per operation, the first included.
+   * @default 3
+   */
+  attempts?: number
+
+  /**
+   * Milliseconds before the first retry; doubles with each further one.
+   * @default 50
+   */
+  backoff?: number
+
+  /**
+   * Upper bound of the delay between attempts, in milliseconds.
+   * @default 1000
+   */
+  maxBackoff?: number
+
+  /**
+   * Wait a random time up to the delay instead of the delay itself, so
+   * operations that collided do not collide again.
+   * @default true
+   */
+  jitter?: boolean
+
+  /**
+   * SQLSTATE codes to retry, read from the driver error's `code` or
+   * `sqlState`.
+   * @default ['40P01', '40001']
+   */
+  codes?: string[]
+}
+
+export type TimeoutConfig = {
+  /**
+   * Milliseconds per query of `findOne`, `findMany` and `count`.
+   * @default 5000
+   */
+  read?: number
+
+  /**
+   * Milliseconds per query of `create`, `update`, `updateMany`, `delete`
+   * and `deleteMany`.
+   * @default 10000
+   */
+  write?: number
+
+  /**
+   * Milliseconds per catalog query of the migration generator.
+   * @default 30000
+   */
+  introspection?: number
+}
+
+export type ReadReplicaConfig = {
+  /**
+   * Milliseconds after a write to a model during which reads of that model
+   * are sent to the primary (read-your-writes consistency). Writes are
+   * tracked in process memory, so this only covers reads served by the same
+   * app instance; multi-instance deployments should also set
+   * `primarySessionLookups`.
+   * @default 5000
+   */
+  stickyWindow?: number
+
+  /**
+   * Always look sessions up by token on the primary. Trades replica offload
+   * for never seeing a stale session on the hottest auth query.
+   * @default false
+   */
+  primarySessionLookups?: boolean
+}
+
+/** Maps a better-auth field key to a column name. */
+export type NamingStrategy = 'snake_case' | 'camelCase' | ((field: string) => string)
+
+/** How primary keys are typed and generated. */
+export type IdStrategy = 'string' | 'uuid' | 'serial'
+
+/** SQL dialects supported by the adapter. */
+export type LucidDialect = 'postgres' | 'mysql' | 'sqlite' | 'mssql'
+
+/**
+ * The query client CRUD operations run on: the `db` service by default, the
+ * named connection's client when `connection` is configured, or the Lucid
+ * transaction client while inside `adapter.transaction()`.
+ */
+type LucidQueryClient = Database | QueryClientContract
+
+// ============================================================================
+// Dialect support
+// ============================================================================
+
+/** Per-dialect capabilities the adapter and migration generator branch on. */
+type DialectFeatures = {
+  /** Supports `INSERT/UPDATE ... RETURNING` (or MSSQL's `OUTPUT`). */
+  returning: boolean
+  /** Stores and returns JSON values natively (no JSON.stringify round-trip). */
+  json: boolean
+  /** Stores and returns real booleans rather than 0/1 integers. */
+  booleans: boolean
+  /** Driver accepts and returns JS `Date` objects for timestamp columns. */
+  dates: boolean
+  /** Has native array column types (opt-in via `nativeArrays`). */
+  arrays: boolean
+  /** SQL expression generating a UUID server-side, if the dialect has one. */
+  uuidDefault: string | null
+  /** Knex can cancel a timed-out query on the server. */
+  cancelQueries: boolean
+}
+
+const DIALECT_FEATURES: Record<LucidDialect, DialectFeatures> = {
+  postgres: {
+    returning: true,
+    json: true,
+    booleans: true,
+    dates: true,
+    arrays: true,
+    uuidDefault: 'gen_random_uuid()',
+    cancelQueries: true,
+  },
+  mysql: {
+    returning: false,
+    json: false,
+    booleans: false,
+    dates: true,
+    arrays: false,
+    uuidDefault: null,
+    cancelQueries: true,
+  },
+  sqlite: {
+    returning: false,
+    json: false,
+    booleans: false,
+    dates: false,
+    arrays: false,
+    uuidDefault: null,
+    cancelQueries: false,
+  },
+  mssql: {
+    returning: true,
+    json: false,
+    booleans: false,
+    dates: false,
+    arrays: false,
+    uuidDefault: 'newid()',
+    cancelQueries: false,
+  },
+}
+
+/** Maps Lucid's `dialect.name` values onto the dialects the adapter knows about. */
+const LUCID_DIALECT_MAP: Record<string, LucidDialect> = {
+  'postgres': 'postgres',
+  'redshift': 'postgres',
+  'mysql': 'mysql',
+  'sqlite3': 'sqlite',
+  'better-sqlite3': 'sqlite',
+  'libsql': 'sqlite',
+  'mssql': 'mssql',
+}
+
+/** Reads the dialect of the named (or default) Lucid connection. */
+function detectDialect(db: Database, connectionName?: string): LucidDialect {
+  const name = db.connection(connectionName).dialect.name
+  const dialect = LUCID_DIALECT_MAP[name]
+  if (!dialect) {
+    throw new Error(`[better-lucid] Unsupported database dialect "${name}"`)
+  }
+  return dialect
+}
+
+/** A date as the driver takes it: a Date, or an ISO string where dates are stored as text. */
+function toDialectDate(date: Date, dialect: LucidDialect): Date | string {
+  return DIALECT_FEATURES[dialect].dates ? date : date.toISOString()
+}
+
+/** Options shared by the migration generator helpers. */
+type SchemaGeneratorOptions = {
+  dialect: LucidDialect
+  /** Lucid connection the generated migration targets. */
+  connection?: string
+  /** Database schema the generated tables live in. */
+  schema?: string
+  /** Prefix added to every generated table name. */
+  tablePrefix?: string
+  /** Explicit table name per model key; wins over `tablePrefix`. */
+  tables?: Record<string, string>
+  /** How field keys become column names. */
+  namingStrategy?: NamingStrategy
+  /** Emit native Postgres array columns for `string[]` / `number[]` fields. */
+  nativeArrays?: boolean
+  /** Type of `id` columns and the foreign keys referencing them. */
+  idStrategy?: IdStrategy
+  /** Model keys that get a `deletedAt` column. */
+  softDelete?: string[]
+  /** Name of the audit log table to create, when auditing is on. */
+  auditTable?: string
+  /** Tenant column added to scoped models. */
+  tenant?: Omit<TenantConfig, 'resolve'>
+  /** Baseline row-level security policies for generated tables (Postgres). */
+  rlsPolicies?: RlsPolicyConfig
+}
+
+const DEFAULT_GENERATOR_OPTIONS: SchemaGeneratorOptions = { dialect: 'postgres' }
+
+// ============================================================================
+// Query routing
+// ============================================================================
+
+/**
+ * Picks the query client for each CRUD operation. Without read replicas, and
+ * inside transactions, reads and writes share a single client.
+ */
+type QueryRouter = {
+  /** Client that writes and schema introspection run on. */
+  primary: LucidQueryClient
+  /** Client for reading `model`; `forcePrimary` bypasses the replicas. */
+  read(model: string, forcePrimary?: boolean): LucidQueryClient
+  /** Client for writing `model`; records the write for read-your-writes routing. */
+  write(model: string): LucidQueryClient
+}
+
+/**
+ * Creates a router that sends reads to `replica` unless the model was written
+ * within the last `stickyWindow` ms. `recentWrites` is shared between the
+ * default and transaction-bound adapters, so writes made inside a transaction
+ * keep subsequent reads on the primary too.
+ */
+function createQueryRouter(
+  primary: LucidQueryClient,
+  replica: LucidQueryClient | null,
+  recentWrites: Map<string, number>,
+  stickyWindow: number,
+  timeouts: QueryTimeouts | null = null
+): QueryRouter {
+  const readPrimary = timeouts ? withTimeout(primary, timeouts.read, timeouts.cancel) : primary
+  const readReplica =
+    replica && timeouts ? withTimeout(replica, timeouts.read, timeouts.cancel) : replica
+  const writePrimary = timeouts ? withTimeout(primary, timeouts.write, timeouts.cancel) : primary
+
+  return {
+    primary,
+    read(model, forcePrimary = false) {
+      if (!readReplica || forcePrimary) return readPrimary
+      const lastWrite = recentWrites.get(model)
+      return lastWrite !== undefined && Date.now() - lastWrite < stickyWindow
+        ? readPrimary
+        : readReplica
+    },
+    write(model) {
+      recentWrites.set(model, Date.now())
+      return writePrimary
+    },
+  }
+}
+
+/** Resolved `timeouts`, and whether the dialect can cancel timed-out queries. */
+type QueryTimeouts = Required<TimeoutConfig> & { cancel: boolean }
+
+function resolveTimeouts(config: LucidAdapterConfig, dialect: LucidDialect): QueryTimeouts | null {
+  if (!config.timeouts) return null
+  const {
+    read = 5000,
+    write = 10000,
+    introspection = 30000,
+  } = config.timeouts === true ? {} : config.timeouts
+  return { read, write, introspection, cancel: DIALECT_FEATURES[dialect].cancelQueries }
+}
+
+/** Client methods returning a query builder the timeout is applied to. */
+const TIMED_METHODS = new Set<PropertyKey>([
+  'from',
+  'table',
+  'query',
+  'rawQuery',
+  'insertQuery',
+  'modelQuery',
+])
+
+/**
+ * Returns a view of `client` whose query builders time out after `ms`, as
+ * do those of the connections `db.connection()` returns for Lucid models.
+ * Everything else, transactions included, goes to the client itself.
+ */
+function withTimeout(client: LucidQueryClient, ms: number, cancel: boolean): LucidQueryClient {
+  return new Proxy(client, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target)
+      if (typeof value !== 'function') return value
+      if (property === 'connection') {
+        return (...args: unknown[]) => withTimeout(value.apply(target, args), ms, cancel)
+      }
+      if (!TIMED_METHODS.has(property)) return value.bind(target)
+      return (...args: unknown[]) => value.apply(target, args).timeout(ms, { cancel })
+    },
+  })
+}
+
+/**
+ * Returns a query client Lucid models can run on: the client itself, or the
+ * named (else default) connection's client for the `db` service.
+ */
+function toQueryClient(client: LucidQueryClient, connection?: string): QueryClientContract {
+  return 'connectionName' in client ? client : client.connection(connection)
+}
+
+/** `meta.type` of Lucid's `@column.dateTime()` and `@column.date()` columns. */
+const DATE_COLUMN_TYPES = ['datetime', 'date']
+
+/**
+ * Converts the `Date`s better-auth writes to luxon `DateTime`s for the
+ * model's `@column.dateTime()` and `@column.date()` properties, which reject
+ * anything else. luxon is loaded only for models that have such columns.
+ */
+async function toModelDates(
+  Model: LucidModel,
+  values: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const attributes = [...Model.$columnsDefinitions]
+    .filter(
+      ([name, column]) =>
+        DATE_COLUMN_TYPES.includes(column.meta?.type) && values[name] instanceof Date
+    )
+    .map(([name]) => name)
+  if (attributes.length === 0) return values
+
+  const { DateTime } = await import('luxon')
+  const converted = { ...values }
+  for (const name of attributes) converted[name] = DateTime.fromJSDate(values[name] as Date)
+  return converted
+}
+
+/** Model attributes with luxon `DateTime`s turned back into the `Date`s better-auth expects. */
+function fromModelDates(attributes: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([name, value]) => [
+      name,
+      (value as any)?.isLuxonDateTime ? (value as any).toJSDate() : value,
+    ])
+  )
+}
+
+/**
+ * Runs the operations `wraps` selects in a transaction of their own, on a
+ * copy of the adapter bound to it, after `prepare` has run on the
+ * transaction. Adapters bound to a better-auth transaction need no
+ * wrapping: their operations already share its client.
+ */
+function withOperationTransactions(
+  creator: AdapterFactoryCustomizeAdapterCreator,
+  client: LucidQueryClient,
+  bind: (trx: TransactionClientContract) => AdapterFactoryCustomizeAdapterCreator,
+  wraps: (operation: string, model: string) => boolean,
+  prepare: ((trx: LucidQueryClient) => Promise<void>) | null
+): AdapterFactoryCustomizeAdapterCreator {
+  return (helpers) => {
+    const adapter: Record<string, any> = creator(helpers)
+    const wrapped = { ...adapter }
+
+    for (const operation of INSTRUMENTED_OPERATIONS) {
+      wrapped[operation] = (args: any) => {
+        if (!wraps(operation, helpers.getDefaultModelName(args.model))) {
+          return adapter[operation](args)
+        }
+        return client.transaction(async (trx) => {
+          await prepare?.(trx)
+          const trxAdapter: Record<string, any> = bind(trx)(helpers)
+          return trxAdapter[operation](args)
+        })
+      }
+    }
+
+    return wrapped as ReturnType<AdapterFactoryCustomizeAdapterCreator>
+  }
+}
+
+/** SQLSTATE codes of deadlocks and serialization failures. */
+const RETRYABLE_CODES = ['40P01', '40001']
+
+/** Operations that leave the same result when run twice. */
+const IDEMPOTENT_OPERATIONS: readonly string[] = [
+  'findOne',
+  'findMany',
+  'count',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+]
+
+/** Runs a callback, re-running it while it fails with a retryable error. */
+type Retrier = <T>(run: () => Promise<T>) => Promise<T>
+
+function createRetrier(config: LucidAdapterConfig): Retrier | null {
+  if (!config.retry) return null
+  const {
+    attempts = 3,
+    backoff = 50,
+    maxBackoff = 1000,
+    jitter = true,
+    codes = RETRYABLE_CODES,
+  } = config.retry === true ? {} : config.retry
+  const isRetryable = (error: any) => codes.includes(error?.code) || codes.includes(error?.sqlState)
+
+  return async (run) => {
+    let attempt = 1
+    while (true) {
+      try {
+        return await run()
+      } catch (error) {
+        if (attempt >= attempts || !isRetryable(error)) throw error
+      }
+      const delay = Math.min(maxBackoff, backoff * 2 ** (attempt - 1))
+      await sleep(jitter ? Math.random() * delay : delay)
+      attempt++
+    }
+  }
+}
+
+/**
+ * Re-runs the operations `retries` selects with `retry`. Adapters bound to a
+ * better-auth transaction need no wrapping: the transaction is retried as a
+ * whole.
+ */
+function withRetries(
+  creator: AdapterFactoryCustomizeAdapterCreator,
+  retry: Retrier,
+  retries: (operation: string, model: string) => boolean
+): AdapterFactoryCustomizeAdapterCreator {
+  return (helpers) => {
+    const adapter: Record<string, any> = creator(helpers)
+    const wrapped = { ...adapter }
+
+    for (const operation of INSTRUMENTED_OPERATIONS) {
+      wrapped[operation] = (args: any) =>
+        retries(operation, helpers.getDefaultModelName(args.model))
+          ? retry(() => adapter[operation](args))
+          : adapter[operation](args)
+    }
+
+    return wrapped as ReturnType<AdapterFactoryCustomizeAdapterCreator>
+  }
+}
+
+// ============================================================================
+// Schema generation helpers (used by createSchema)
+// ============================================================================
+
+/** Converts a camelCase field name to snake_case for use as a DB column name. */
+function camelToSnake(str: string): string {
+  return str.replace(/([A-Z])/g, '_$1').toLowerCase()
+}
+
+/** Returns a `YYYYMMDDHHmmss` timestamp string for migration filenames. */
+function generateTimestamp(): string {
+  const now = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return [
+    now.getFullYear(),
+    pad(now.getMonth() + 1),
+    pad(now.getDate()),
+    pad(now.getHours()),
+    pad(now.getMinutes()),
+    pad(now.getSeconds()),
+  ].join('')
+}
+
+/**
+ * Resolves the physical table name for a model: an explicit `tables` entry
+ * for the model key, else the model name with `tablePrefix` prepended.
+ */
+function resolveTableName(
+  modelKey: string,
+  modelName: string,
+  options: { tablePrefix?: string; tables?: Record<string, string> }
+): string {
+  return options.tables?.[modelKey] ?? `${options.tablePrefix ?? ''}${modelName}`
+}
+
+/** Prefixes a table name with the configured database schema, if any. */
+function qualifyTable(tableName: string, schema?: string): string {
+  return schema ? `${schema}.${tableName}` : tableName
+}
+
+/** Physical (mapped, prefixed and schema-qualified) table name CRUD queries run against. */
+function getTableName(modelKey: string, modelName: string, config: LucidAdapterConfig): string {
+  return qualifyTable(resolveTableName(modelKey, modelName, config), config.schema)
+}
+
+/**
+ * The model name better-auth reports for a schema key (its `getModelName`),
+ * for code that works from the schema rather than an adapter call.
+ */
+function getSchemaModelName(
+  schema: BetterAuthDBSchema,
+  modelKey: string,
+  config: LucidAdapterConfig
+): string {
+  return config.usePlural ? `${schema[modelKey].modelName}s` : schema[modelKey].modelName
+}
+
+/**
+ * Returns the `this.schema` expression generated migration statements start
+ * from, scoped with `withSchema(...)` when a database schema is configured.
+ */
+function schemaBuilder(options: SchemaGeneratorOptions): string {
+  return options.schema ? `this.schema.withSchema('${options.schema}')` : 'this.schema'
+}
+
+/** Converts a field key to a column name with the given naming strategy. */
+function applyNamingStrategy(key: string, strategy: NamingStrategy = 'snake_case'): string {
+  if (typeof strategy === 'function') return strategy(key)
+  return strategy === 'camelCase' ? key : camelToSnake(key)
+}
+
+/**
+ * Returns the DB column name for a schema field, respecting the `fieldName`
+ * override. better-auth fills `fieldName` with the key itself when it is not
+ * customised, so only a differing `fieldName` counts as an override.
+ */
+function getColumnName(
+  schemaKey: string,
+  field: DBFieldAttribute,
+  strategy?: NamingStrategy
+): string {
+  const fieldName = (field as any).fieldName
+  return fieldName && fieldName !== schemaKey ? fieldName : applyNamingStrategy(schemaKey, strategy)
+}
+
+/**
+ * Maps a better-auth `DBFieldType` to the Lucid schema builder method name.
+ *
+ * MySQL and MSSQL cannot index unbounded text columns, so keys, unique,
+ * indexed and foreign-key strings become `varchar` there. `id` columns and
+ * foreign keys referencing an `id` follow the configured `idStrategy`.
+ */
+function getKnexType(
+  schemaKey: string,
+  field: DBFieldAttribute,
+  options: SchemaGeneratorOptions
+): string {
+  const { dialect, idStrategy } = options
+  const isKey = schemaKey === 'id' || (field as any).references?.field === 'id'
+  if (isKey && idStrategy === 'uuid') return 'uuid'
+  if (isKey && idStrategy === 'serial') return schemaKey === 'id' ? 'bigIncrements' : 'bigInteger'
+
+  const type = field.type as string
+  if (type === 'string') {
+    const f = field as any
+    const needsIndex = schemaKey === 'id' || f.unique || f.index || f.references
+    if (needsIndex && (dialect === 'mysql' || dialect === 'mssql')) return 'string'
+    return f.sortable ? 'string' : 'text'
+  }
+  if (type === 'number') {
+    return (field as any).bigint ? 'bigInteger' : 'integer'
+  }
+  if (type === 'boolean') return 'boolean'
+  if (type === 'date') return 'timestamp'
+  if (type === 'json') {
+    if (dialect === 'postgres') return 'jsonb'
+    return dialect === 'mysql' ? 'json' : 'text'
+  }
+  // string[] or number[] — native Postgres arrays when enabled, else JSON text
+  return options.nativeArrays && dialect === 'postgres' ? 'specificType' : 'text'
+}
+
+/** Postgres array type backing a `string[]` or `number[]` field. */
+function getArrayType(field: DBFieldAttribute): string {
+  return field.type === 'number[]' ? 'integer[]' : 'text[]'
+}
+
+const ON_DELETE_MAP: Record<string, string> = {
+  'cascade': 'CASCADE',
+  'set null': 'SET NULL',
+  'restrict': 'RESTRICT',
+  'no action': 'NO ACTION',
+  'set default': 'SET DEFAULT',
+}
+
+/**
+ * Builds the Lucid column chain string for a single field.
+ * Does NOT include the leading `table.` — callers add that.
+ *
+ * @example
+ *   buildColumnChain('userId', field, tables)
+ *   // → "text('user_id').notNullable().references('id').inTable('user').onDelete('CASCADE')"
+ */
+function buildColumnChain(
+  schemaKey: string,
+  field: DBFieldAttribute,
+  allTables: BetterAuthDBSchema,
+  options: SchemaGeneratorOptions = DEFAULT_GENERATOR_OPTIONS
+): string {
+  const colName = getColumnName(schemaKey, field, options.namingStrategy)
+  const knexType = getKnexType(schemaKey, field, options)
+
+  // Base column definition. Only Postgres and MSSQL have a zoned timestamp type.
+  const useTz = options.dialect === 'postgres' || options.dialect === 'mssql'
+  const typeArg =
+    knexType === 'timestamp' && useTz
+      ? `'${colName}', { useTz: true }`
+      : knexType === 'specificType'
+        ? `'${colName}', '${getArrayType(field)}'`
+        : `'${colName}'`
+  let chain = `${knexType}(${typeArg})`
+
+  // Primary key (only for 'id' fields). bigIncrements is a primary key already.
+  if (schemaKey === 'id' && knexType !== 'bigIncrements') {
+    chain += '.primary()'
+  }
+
+  // Server-side UUIDs where the dialect can generate them
+  const uuidDefault = DIALECT_FEATURES[options.dialect].uuidDefault
+  if (schemaKey === 'id' && knexType === 'uuid' && uuidDefault) {
+    chain += `.defaultTo(this.raw('${uuidDefault}'))`
+  }
+
+  // MySQL's bigIncrements is unsigned; keys referencing it must match.
+  if (knexType === 'bigInteger' && options.dialect === 'mysql' && schemaKey !== 'id') {
+    chain += '.unsigned()'
+  }
+
+  // Nullability — required defaults to true
+  if ((field as any).required !== false) {
+    chain += '.notNullable()'
+  } else {
+    chain += '.nullable()'
+  }
+
+  // Unique constraint
+  if ((field as any).unique) {
+    chain += '.unique()'
+  }
+
+  // Foreign key reference
+  const refs = (field as any).references
+  if (refs) {
+    // `references.model` may be the model key or its configured modelName.
+    const refKey =
+      Object.keys(allTables).find(
+        (key) => key === refs.model || allTables[key].modelName === refs.model
+      ) ?? refs.model
+    const refModelName = allTables[refKey]?.modelName ?? refs.model
+    const onDelete = ON_DELETE_MAP[refs.onDelete ?? 'cascade'] ?? 'CASCADE'
+    const refTable = qualifyTable(resolveTableName(refKey, refModelName, options), options.schema)
+    const refColumn = getColumnName(
+      refs.field,
+      allTables[refKey]?.fields[refs.field] ?? ({} as DBFieldAttribute),
+      options.namingStrategy
+    )
+    chain += `.references('${refColumn}').inTable('${refTable}').onDelete('${onDelete}')`
+  } else if ((field as any).index) {
+    // Only add .index() when there's no FK (FK already creates an index)
+    chain += '.index()'
+  }
+
+  return chain
+}
+
+/** `id` column used when the schema (as from `getAuthTables`) leaves it implicit. */
+const DEFAULT_ID_FIELD = { type: 'string', required: true } as DBFieldAttribute
+
+/**
+ * Generates the statements enabling row-level security on a new table and
+ * creating its baseline policy. Tenant-scoped tables (those with the tenant
+ * field) only admit rows of the tenant in the `tenantSetting` setting.
+ */
+function generateRlsPolicyBlock(
+  tableName: string,
+  fields: Record<string, DBFieldAttribute>,
+  indent: string,
+  policy: RlsPolicyConfig,
+  options: SchemaGeneratorOptions
+): string {
+  const table = options.schema ? `"${options.schema}"."${tableName}"` : `"${tableName}"`
+  const tenantColumn = (fields[TENANT_FIELD] as any)?.fieldName
+  const check = tenantColumn
+    ? `"${tenantColumn}"::text = current_setting('${policy.tenantSetting ?? 'app.tenant_id'}', true)`
+    : 'true'
+  const role = policy.role ? ` to "${policy.role}"` : ''
+
+  return [
+    `${indent}this.schema.raw(\`alter table ${table} enable row level security\`)`,
+    `${indent}this.schema.raw(`,
+    `${indent}  \`create policy "${tableName}_better_auth" on ${table}${role} using (${check}) with check (${check})\``,
+    `${indent})`,
+  ].join('\n')
+}
+
+/** `deletedAt` column added to the models listed in `softDelete`. */
+const SOFT_DELETE_FIELD = { type: 'date', required: false, index: true } as DBFieldAttribute
+
+/** Schema key of the tenant column; its `fieldName` carries the configured column name. */
+const TENANT_FIELD = '__tenant'
+
+/**
+ * Adds the tenant column to the fields of a tenant-scoped model and moves
+ * their unique constraints onto `(tenant, field)` column pairs. Unscoped
+ * models keep their fields and get no composite uniques.
+ */
+function applyTenantScope(
+  modelKey: string,
+  fields: Record<string, DBFieldAttribute>,
+  options: SchemaGeneratorOptions
+): { fields: Record<string, DBFieldAttribute>; uniques: string[][] } {
+  const { tenant } = options
+  if (!tenant || (tenant.models && !tenant.models.includes(modelKey))) {
+    return { fields, uniques: [] }
+  }
+
+  const column = tenant.column ?? 'tenant_id'
+  const scoped: Record<string, DBFieldAttribute> = {
+    [TENANT_FIELD]: {
+      type: tenant.type ?? 'string',
+      required: true,
+      index: true,
+      fieldName: column,
+    } as DBFieldAttribute,
+  }
+  const uniques: string[][] = []
+  for (const [key, field] of Object.entries(fields)) {
+    if ((field as any).unique) {
+      scoped[key] = { ...field, unique: false }
+      uniques.push([column, getColumnName(key, field, options.namingStrategy)])
+    } else {
+      scoped[key] = field
+    }
+  }
+  return { fields: scoped, uniques }
+}
+
+/**
+ * Generates a `this.schema.createTable(...)` block for a single table.
+ * The `id` field is always emitted first; remaining fields follow in schema order.
+ */
+function generateCreateTableBlock(
+  modelName: string,
+  fields: Record<string, DBFieldAttribute>,
+  allTables: BetterAuthDBSchema,
+  indent: string,
+  options: SchemaGeneratorOptions = DEFAULT_GENERATOR_OPTIONS,
+  uniques: string[][] = []
+): string {
+  const lines: string[] = []
+
+  // id first
+  const idField = fields['id'] ?? DEFAULT_ID_FIELD
+  lines.push(`${indent}  table.${buildColumnChain('id', idField, allTables, options)}`)
+
+  // Remaining fields in definition order
+  for (const [key, field] of Object.entries(fields)) {
+    if (key === 'id') continue
+    lines.push(`${indent}  table.${buildColumnChain(key, field, allTables, options)}`)
+  }
+
+  // Composite unique constraints (per-tenant uniques)
+  for (const columns of uniques) {
+    lines.push(`${indent}  table.unique([${columns.map((c) => `'${c}'`).join(', ')}])`)
+  }
+
+  return `${indent}${schemaBuilder(options)}.createTable('${modelName}', (table) => {\n${lines.join('\n')}\n${indent}})`
+}
+
+/**
+ * Restricts an `information_schema` query to the schema the auth tables live
+ * in: the configured schema, else `public` on Postgres, the current database
+ * on MySQL and the default schema on MSSQL.
+ */
+function whereCurrentSchema(query: any, options: SchemaGeneratorOptions) {
+  if (options.dialect === 'mysql') return query.whereRaw('table_schema = database()')
+  if (options.schema) return query.where('table_schema', options.schema)
+  if (options.dialect === 'mssql') return query.whereRaw('table_schema = schema_name()')
+  return query.where('table_schema', 'public')
+}
+
+/**
+ * Returns the set of table names that currently exist in the database.
+ * Reads `information_schema.tables`, or `sqlite_master` on SQLite.
+ */
+async function queryExistingTables(
+  db: LucidQueryClient,
+  options: SchemaGeneratorOptions
+): Promise<Set<string>> {
+  const rows =
+    options.dialect === 'sqlite'
+      ? await db
+          .from('sqlite_master')
+          .where('type', 'table')
+          .whereNot('name', 'like', 'sqlite_%')
+          .select('name as table_name')
+      : await whereCurrentSchema(db.from('information_schema.tables'), options)
+          .where('table_type', 'BASE TABLE')
+          .select('table_name as table_name')
+
+  return new Set(rows.map((r: any) => r.table_name as string))
+}
+
+/**
+ * Queries the column catalog for the given table names and returns a map of
+ * `tableName → Set<columnName>`. Reads `information_schema.columns`, or
+ * `pragma_table_info` on SQLite.
+ */
+async function queryExistingColumns(
+  db: LucidQueryClient,
+  tableNames: string[],
+  options: SchemaGeneratorOptions
+): Promise<Map<string, Set<string>>> {
+  if (tableNames.length === 0) return new Map()
+
+  const rows =
+    options.dialect === 'sqlite'
+      ? await db
+          .from('sqlite_master')
+          .joinRaw('join pragma_table_info(sqlite_master.name) as p')
+          .where('sqlite_master.type', 'table')
+          .whereIn('sqlite_master.name', tableNames)
+          .select('sqlite_master.name as table_name', 'p.name as column_name')
+      : await whereCurrentSchema(db.from('information_schema.columns'), options)
+          .whereIn('table_name', tableNames)
+          .select('table_name as table_name', 'column_name as column_name')
+
+  const result = new Map<string, Set<string>>()
+  for (const row of rows as Array<{ table_name: string; column_name: string }>) {
+    if (!result.has(row.table_name)) result.set(row.table_name, new Set())
+    result.get(row.table_name)!.add(row.column_name)
+  }
+  return result
+}
+
+/**
+ * Wraps up/down bodies in a Lucid BaseSchema migration class string.
+ * A non-default connection is recorded on the class, alongside the command
+ * that runs the migration against it.
+ */
+function wrapInBaseSchema(
+  upBody: string,
+  downBody: string,
+  options: SchemaGeneratorOptions = DEFAULT_GENERATOR_OPTIONS
+): string {
+  const connectionLines = options.connection
+    ? [
+        `  // Run with: node ace migration:run --connection=${options.connection}`,
+        `  connection = '${options.connection}'`,
+        ``,
+      ]
+    : []
+
+  return [
+    `import { BaseSchema } from '@adonisjs/lucid/schema'`,
+    ``,
+    `export default class extends BaseSchema {`,
+    ...connectionLines,
+    `  async up() {`,
+    upBody,
+    `  }`,
+    ``,
+    `  async down() {`,
+    downBody,
+    `  }`,
+    `}`,
+    ``,
+  ].join('\n')
+}
+
+// ============================================================================
+// Full migration generator (extracted for testability)
+// ============================================================================
+
+/** Code returned when the database already matches the schema. */
+const IN_SYNC_CODE = `// better-auth schema is already in sync with your database. No changes needed.\n`
+
+/**
+ * Tables a migration should cover, derived the way better-auth's own
+ * createSchema does: sessions kept only in secondary storage get no table.
+ */
+function getMigrationTables(options: BetterAuthOptions): BetterAuthDBSchema {
+  const tables = getAuthTables(options)
+  if (options.secondaryStorage && !options.session?.storeSessionInDatabase) {
+    delete tables.session
+  }
+  return tables
+}
+
+/**
+ * Generates a Lucid migration file string that reflects the current better-auth
+ * schema (core tables + all enabled plugins).
+ *
+ * Fresh DB  → full CREATE TABLE migration for every active table.
+ * Existing  → incremental: ALTER TABLE ADD COLUMN / CREATE TABLE for new items;
+ *             removed columns/tables are emitted as WARNING comments only.
+ */
+async function generateLucidMigration(
+  db: LucidQueryClient,
+  tables: BetterAuthDBSchema,
+  file?: string,
+  options: SchemaGeneratorOptions = DEFAULT_GENERATOR_OPTIONS
+): Promise<{ code: string; path: string; overwrite: boolean }> {
+  // 1. Filter and sort tables, resolving each model to its physical table name
+  const activeTables = Object.entries(tables)
+    .filter(([, t]) => !t.disableMigrations)
+    .sort(([, a], [, b]) => (a.order ?? 999) - (b.order ?? 999))
+    .map(([modelKey, t]) => ({
+      ...t,
+      modelName: resolveTableName(modelKey, t.modelName, options),
+      ...applyTenantScope(
+        modelKey,
+        options.softDelete?.includes(modelKey)
+          ? { ...t.fields, deletedAt: SOFT_DELETE_FIELD }
+          : t.fields,
+        options
+      ),
+    }))
+  if (options.auditTable) {
+    activeTables.push({ modelName: options.auditTable, fields: AUDIT_LOG_FIELDS, uniques: [] })
+  }
+
+  const timestamp = generateTimestamp()
+  const outputPath = file ?? `database/migrations/${timestamp}_better_auth_schema.ts`
+
+  // 2. Detect current DB state using the dialect's catalog
+  const existingTables = await queryExistingTables(db, options)
+  const isFresh = !existingTables.has(
+    resolveTableName('user', tables.user?.modelName ?? 'user', options)
+  )
+
+  // ── FRESH MODE ────────────────────────────────────────────────
+  if (isFresh) {
+    const upBlocks = activeTables.map((t) =>
+      generateCreateTableBlock(t.modelName, t.fields, tables, '    ', options, t.uniques)
+    )
+    // Dropping the tables on rollback drops their policies too.
+    if (options.rlsPolicies && options.dialect === 'postgres') {
+      for (const t of activeTables) {
+        upBlocks.push(
+          generateRlsPolicyBlock(t.modelName, t.fields, '    ', options.rlsPolicies, options)
+        )
+      }
+    }
+    // A fresh database may not have the schema yet. It is left in place on
+    // rollback since other objects may live in it.
+    if (options.schema) {
+      upBlocks.unshift(`    this.schema.createSchemaIfNotExists('${options.schema}')`)
+    }
+    const downLines = [...activeTables]
+      .reverse()
+      .map((t) => `    ${schemaBuilder(options)}.dropTableIfExists('${t.modelName}')`)
+
+    return {
+      code: wrapInBaseSchema(upBlocks.join('\n\n'), downLines.join('\n'), options),
+      path: outputPath,
+      overwrite: false,
+    }
+  }
+
+  // ── INCREMENTAL MODE ──────────────────────────────────────────
+  const desiredTableNames = new Set(activeTables.map((t) => t.modelName))
+  const existingColumns = await queryExistingColumns(db, [...desiredTableNames], options)
+
+  const upStatements: string[] = []
+  const downStatements: string[] = []
+  const warnings: string[] = []
+
+  for (const table of activeTables) {
+    const { modelName, fields, uniques } = table
+
+    if (!existingTables.has(modelName)) {
+      // New table from a plugin — CREATE TABLE
+      upStatements.push(
+        generateCreateTableBlock(modelName, fields, tables, '    ', options, uniques)
+      )
+      if (options.rlsPolicies && options.dialect === 'postgres') {
+        upStatements.push(
+          generateRlsPolicyBlock(modelName, fields, '    ', options.rlsPolicies, options)
+        )
+      }
+      downStatements.unshift(`    ${schemaBuilder(options)}.dropTableIfExists('${modelName}')`)
+      continue
+    }
+
+    // Existing table — check for new columns (ALTER TABLE ADD COLUMN)
+    const currentCols = existingColumns.get(modelName) ?? new Set<string>()
+    const addColLines: string[] = []
+    const backfillStatements: string[] = []
+
+    for (const [schemaKey, field] of Object.entries(fields)) {
+      if (schemaKey === 'id') continue
+      const colName = getColumnName(schemaKey, field, options.namingStrategy)
+      if (currentCols.has(colName)) continue
+
+      // The tenant column is added nullable, filled with `backfill` and only
+      // then made required, so tables that already have rows can migrate.
+      if (schemaKey === TENANT_FIELD) {
+        const backfill = options.tenant?.backfill
+        if (backfill === undefined) {
+          throw new Error(
+            `[better-lucid] Adding the tenant column to the existing '${modelName}' table needs tenant.backfill, the tenant of its rows`
+          )
+        }
+        const qualified = options.schema ? `${options.schema}.${modelName}` : modelName
+        addColLines.push(
+          `      table.${buildColumnChain(schemaKey, { ...field, required: false }, tables, options)}`
+        )
+        backfillStatements.push(
+          `    this.defer(async (db) => {\n      await db.from('${qualified}').update({ ${colName}: ${JSON.stringify(backfill)} })\n    })`,
+          `    ${schemaBuilder(options)}.table('${modelName}', (table) => {\n      table.${buildColumnChain(schemaKey, { ...field, index: false }, tables, options)}.alter()\n    })`
+        )
+        continue
+      }
+
+      addColLines.push(`      table.${buildColumnChain(schemaKey, field, tables, options)}`)
+    }
+
+    // Composite uniques involving a new column. When the tenant column itself
+    // is new, the field's existing single-column unique gives way first.
+    for (const [tenantColumn, column] of uniques) {
+      if (currentCols.has(tenantColumn) && currentCols.has(column)) continue
+      if (!currentCols.has(tenantColumn) && currentCols.has(column)) {
+        addColLines.push(`      table.dropUnique(['${column}'])`)
+      }
+      addColLines.push(`      table.unique(['${tenantColumn}', '${column}'])`)
+    }
+
+    if (addColLines.length > 0) {
+      upStatements.push(
+        `    ${schemaBuilder(options)}.table('${modelName}', (table) => {\n${addColLines.join('\n')}\n    })`
+      )
+      // Reverse: drop the freshly added columns
+      const dropLines = addColLines
+        .map((line) => {
+          const m = line.match(/table\.\w+\('([^']+)'/)
+          return m ? `      table.dropColumn('${m[1]}')` : null
+        })
+        .filter(Boolean) as string[]
+      if (dropLines.length > 0) {
+        downStatements.push(
+          `    ${schemaBuilder(options)}.table('${modelName}', (table) => {\n${dropLines.join('\n')}\n    })`
+        )
+      }
+    }
+    upStatements.push(...backfillStatements)
+
+    // Warn about columns in DB that are no longer in the schema
+    for (const existingCol of currentCols) {
+      if (existingCol === 'id') continue
+      const stillDesired = Object.entries(fields).some(
+        ([k, f]) => getColumnName(k, f, options.namingStrategy) === existingCol
+      )
+      if (!stillDesired) {
+        warnings.push(
+          `    // WARNING: '${modelName}.${existingCol}' is no longer in your better-auth config.`,
+          `    // Remove it manually if desired:`,
+          `    // ${schemaBuilder(options)}.table('${modelName}', (table) => { table.dropColumn('${existingCol}') })`
+        )
+      }
+    }
+  }
+
+  // Warn about entire tables that exist in DB but were removed from config.
+  for (const existingTable of existingTables) {
+    if (!desiredTableNames.has(existingTable)) {
+      const wasOurs = activeTables.some((t) => t.modelName === existingTable)
+      if (wasOurs) {
+        warnings.push(
+          `    // WARNING: Table '${existingTable}' exists in DB but is no longer in your config.`,
+          `    // Drop it manually if desired:`,
+          `    // ${schemaBuilder(options)}.dropTableIfExists('${existingTable}')`
+        )
+      }
+    }
+  }
+
+  if (upStatements.length === 0 && warnings.length === 0) {
+    return {
+      code: IN_SYNC_CODE,
+      path: outputPath,
+      overwrite: false,
+    }
+  }
+
+  const upBody = [...upStatements, ...(warnings.length > 0 ? ['', ...warnings] : [])].join('\n\n')
+
+  const downBody =
+    downStatements.length > 0
+      ? downStatements.join('\n\n')
+      : '    // No automatic rollback for incremental changes — run manually if needed.'
+
+  return {
+    code: wrapInBaseSchema(upBody, downBody, options),
+    path: outputPath,
+    overwrite: false,
+  }
+}
+
+/** @internal Exported for unit testing only. */
+export const adapterTestHelpers = {
+  camelToSnake: (s: string) => camelToSnake(s),
+  buildColumnChain: (
+    k: string,
+    f: DBFieldAttribute,
+    t: BetterAuthDBSchema,
+    o?: SchemaGeneratorOptions
+  ) => buildColumnChain(k, f, t, o),
+  generateCreateTableBlock: (
+    m: string,
+    f: Record<string, DBFieldAttribute>,
+    t: BetterAuthDBSchema,
+    i: string,
+    o?: SchemaGeneratorOptions
+  ) => generateCreateTableBlock(m, f, t, i, o),
+  wrapInBaseSchema: (up: string, down: string, o?: SchemaGeneratorOptions) =>
+    wrapInBaseSchema(up, down, o),
+  generateLucidMigration: (
+    db: LucidQueryClient,
+    tables: BetterAuthDBSchema,
+    file?: string,
+    o?: SchemaGeneratorOptions
+  ) => generateLucidMigration(db, tables, file, o),
+}
+
+// ============================================================================
+// WHERE condition helper (used by CRUD operations)
+// ============================================================================
+
+/** Escapes LIKE wildcards (and MSSQL's `[` character classes) so input matches literally. */
+function escapeLike(value: string, dialect: LucidDialect): string {
+  return value.replace(dialect === 'mssql' ? /[\\%_[]/g : /[\\%_]/g, '\\$&')
+}
+
+/** Wraps an escaped value in the `%` wildcards of a LIKE-family operator. */
+function likePattern(operator: string, escaped: string): string {
+  if (operator === 'starts_with') return `${escaped}%`
+  if (operator === 'ends_with') return `%${escaped}`
+  return `%${escaped}%`
+}
+
+/**
+ * Builds a raw, case-insensitive comparison for a string condition: `ilike`
+ * on Postgres, `lower(column)` against the lowercased value elsewhere.
+ * Returns null for conditions that have no string value to fold.
+ */
+function caseInsensitiveCondition(
+  { field, value, operator }: CleanedWhere,
+  dialect: LucidDialect
+): [string, unknown[]] | null {
+  const values = Array.isArray(value) ? value : [value]
+  if (values.length === 0 || !values.every((v) => typeof v === 'string')) return null
+  const lowered = (values as string[]).map((v) => v.toLowerCase())
+
+  switch (operator) {
+    case 'in':
+    case 'not_in': {
+      const placeholders = lowered.map(() => '?').join(', ')
+      const op = operator === 'in' ? 'in' : 'not in'
+      return [`lower(??) ${op} (${placeholders})`, [field, ...lowered]]
+    }
+    case 'contains':
+    case 'starts_with':
+    case 'ends_with': {
+      const pattern = likePattern(operator, escapeLike(lowered[0], dialect))
+      return dialect === 'postgres'
+        ? ['?? ilike ? escape ?', [field, pattern, '\\']]
+        : ['lower(??) like ? escape ?', [field, pattern, '\\']]
+    }
+    case 'eq':
+    case 'ne':
+      return [`lower(??) ${operator === 'eq' ? '=' : '!='} ?`, [field, lowered[0]]]
+    default:
+      return null
+  }
+}
+
+/**
+ * Builds a raw containment comparison for a native Postgres array column:
+ * `contains` → `@>` (holds every given value), `in` → `&&` (holds any of
+ * them), `not_in` → `not &&`. Returns null for other operators.
+ */
+function arrayCondition(
+  { field, value, operator }: CleanedWhere,
+  arrayType: string
+): [string, unknown[]] | null {
+  const values = Array.isArray(value) ? value : [value]
+  const sqlOp = ({ contains: '@>', in: '&&', not_in: '&&' } as Record<string, string>)[operator]
+  if (!sqlOp || values.length === 0) return null
+
+  const sql = `?? ${sqlOp} array[${values.map(() => '?').join(', ')}]::${arrayType}`
+  return [operator === 'not_in' ? `not (${sql})` : sql, [field, ...values]]
+}
+
+/**
+ * Applies an array of better-auth CleanedWhere conditions to a Lucid query builder.
+ *
+ * The first condition always uses .where() / .whereIn().
+ * Subsequent conditions check the `connector` field:
+ *   - "OR"  → .orWhere() / .orWhereIn()
+ *   - "AND" (default) → .andWhere() / .andWhereIn()
+ *
+ * LIKE-family operators escape `%` and `_` in the value, conditions in
+ * `insensitive` mode compare lowercased strings, and `arrayColumns` (column →
+ * Postgres array type) switches those columns to containment operators.
+ */
+function applyWhereConditions(
+  query: any,
+  where: CleanedWhere[],
+  dialect: LucidDialect,
+  arrayColumns: Map<string, string> = new Map()
+): void {
+  for (const [i, condition] of where.entries()) {
+    const { field, value, operator, connector, mode } = condition
+    const useOr = i > 0 && connector === 'OR'
+
+    const arrayType = arrayColumns.get(field)
+    const raw = arrayType
+      ? arrayCondition(condition, arrayType)
+      : mode === 'insensitive' && caseInsensitiveCondition(condition, dialect)
+    if (raw) {
+      if (useOr) {
+        query.orWhereRaw(...raw)
+      } else {
+        query.whereRaw(...raw)
+      }
+      continue
+    }
+
+    switch (operator) {
+      case 'in':
+        if (useOr) {
+          query.orWhereIn(field, Array.isArray(value) ? value : [value])
+        } else {
+          query.whereIn(field, Array.isArray(value) ? value : [value])
+        }
+        break
+
+      case 'not_in':
+        if (useOr) {
+          query.orWhereNotIn(field, Array.isArray(value) ? value : [value])
+        } else {
+          query.whereNotIn(field, Array.isArray(value) ? value : [value])
+        }
+        break
+
+      case 'contains':
+      case 'starts_with':
+      case 'ends_with': {
+        // An explicit ESCAPE clause: SQLite and MSSQL have no default escape character.
+        const pattern = likePattern(operator, escapeLike(String(value), dialect))
+        if (useOr) {
+          query.orWhereRaw('?? like ? escape ?', [field, pattern, '\\'])
+        } else {
+          query.whereRaw('?? like ? escape ?', [field, pattern, '\\'])
+        }
+        break
+      }
+
+      default: {
+        const opMap: Record<string, string> = {
+          eq: '=',
+          ne: '!=',
+          lt: '<',
+          lte: '<=',
+          gt: '>',
+          gte: '>=',
+        }
+        const sqlOp = opMap[operator] ?? '='
+        if (useOr) {
+          query.orWhere(field, sqlOp, value)
+        } else {
+          query.where(field, sqlOp, value)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Applies a model's where clause together with the filters the adapter adds
+ * itself: rows outside the current tenant, and rows of `softDelete` models
+ * that have a `deletedAt`, are excluded. With a filter in place,
+ * OR-connected conditions are grouped so they cannot bypass it.
+ */
+function applyModelWhere(
+  query: any,
+  model: string,
+  where: CleanedWhere[] | undefined,
+  dialect: LucidDialect,
+  columns: ColumnMapper,
+  tenant: TenantScope | null = null
+): void {
+  const tenantColumn = tenant?.column(model)
+  if (tenantColumn) query.where(tenantColumn, tenant!.current())
+  const deletedAt = columns.deletedAt(model)
+  if (deletedAt) query.whereNull(deletedAt)
+
+  if (!where || where.length === 0) return
+  if ((tenantColumn || deletedAt) && where.some((w) => w.connector === 'OR')) {
+    query.where((group: any) => applyWhereConditions(group, where, dialect, columns.arrays(model)))
+  } else {
+    applyWhereConditions(query, where, dialect, columns.arrays(model))
+  }
+}
+
+// ============================================================================
+// Column naming
+// ============================================================================
+
+/**
+ * Translates between the field names better-auth hands the adapter (a
+ * field's `fieldName`, else its key) and the columns the migration generator
+ * creates for them, so runtime queries hit the same columns the migrations
+ * define.
+ */
+type ColumnMapper = {
+  /** Column name for a field of the model. */
+  column(model: string, field: string): string
+  /** Renames the keys of an insert/update payload to column names. */
+  payload(model: string, data: Record<string, unknown>): Record<string, unknown>
+  /**
+   * Renames where-clause fields to column names, and switches the fields
+   * configured in `caseInsensitive` to `insensitive` mode.
+   */
+  where(model: string, where: CleanedWhere[] | undefined): CleanedWhere[] | undefined
+  /** Renames the columns of a returned row back to field names. */
+  row(model: string, row: Record<string, unknown>): Record<string, unknown>
+  /** Native array columns of the model (column → Postgres array type). */
+  arrays(model: string): Map<string, string>
+  /** The soft-delete column of the model, or null when its rows are hard-deleted. */
+  deletedAt(model: string): string | null
+  /** Every column of the model, `id` first. */
+  all(model: string): string[]
+}
+
+function createColumnMapper(schema: BetterAuthDBSchema, config: LucidAdapterConfig): ColumnMapper {
+  const { namingStrategy: strategy, caseInsensitive = false } = config
+  const columnsByModel = new Map<string, Map<string, string>>()
+  const fieldsByModel = new Map<string, Map<string, string>>()
+  const arraysByModel = new Map<string, Map<string, string>>()
+
+  /** field name → column, built lazily per model from the schema. */
+  const columnsFor = (model: string) => {
+    let columns = columnsByModel.get(model)
+    if (!columns) {
+      columns = new Map([['id', applyNamingStrategy('id', strategy)]])
+      for (const [key, field] of Object.entries(schema[model]?.fields ?? {})) {
+        columns.set((field as any).fieldName ?? key, getColumnName(key, field, strategy))
+      }
+      columnsByModel.set(model, columns)
+      fieldsByModel.set(model, new Map([...columns].map(([name, column]) => [column, name])))
+    }
+    return columns
+  }
+
+  const column = (model: string, field: string) =>
+    columnsFor(model).get(field) ?? applyNamingStrategy(field, strategy)
+
+  /** Whether the field (by its `fieldName`) is configured as case-insensitive. */
+  const isCaseInsensitive = (model: string, field: string) => {
+    if (typeof caseInsensitive === 'boolean') return caseInsensitive
+    return (caseInsensitive[model] ?? []).some(
+      (key) => ((schema[model]?.fields[key] as any)?.fieldName ?? key) === field
+    )
+  }
+
+  return {
+    column,
+    payload(model, data) {
+      return Object.fromEntries(Object.entries(data).map(([k, v]) => [column(model, k), v]))
+    },
+    where(model, where) {
+      return where?.map((w) => ({
+        ...w,
+        field: column(model, w.field),
+        mode: isCaseInsensitive(model, w.field) ? 'insensitive' : w.mode,
+      }))
+    },
+    row(model, row) {
+      columnsFor(model)
+      const fields = fieldsByModel.get(model)!
+      return Object.fromEntries(Object.entries(row).map(([k, v]) => [fields.get(k) ?? k, v]))
+    },
+    arrays(model) {
+      let arrays = arraysByModel.get(model)
+      if (!arrays) {
+        arrays = new Map()
+        for (const [key, field] of Object.entries(schema[model]?.fields ?? {})) {
+          if (config.nativeArrays && (field.type === 'string[]' || field.type === 'number[]')) {
+            arrays.set(getColumnName(key, field, strategy), getArrayType(field))
+          }
+        }
+        arraysByModel.set(model, arrays)
+      }
+      return arrays
+    },
+    deletedAt(model) {
+      return config.softDelete?.includes(model) ? applyNamingStrategy('deletedAt', strategy) : null
+    },
+    all(model) {
+      return [...columnsFor(model).values()]
+    },
+  }
+}
+
+// ============================================================================
+// Session cache
+// ============================================================================
+
+/** Cached models and the field their cached lookups match on. */
+const CACHED_LOOKUPS: Record<string, string> = { session: 'token', user: 'id' }
+
+/**
+ * Read-through cache for session-by-token and user-by-id lookups. Entries
+ * hold rows keyed by field name, as `transformOutput` expects them.
+ */
+type SessionCache = {
+  /** Cache key for a `findOne`, or null when the lookup is not cacheable. */
+  key(model: string, where: CleanedWhere[] | undefined): string | null
+  get(model: string, key: string): Promise<Record<string, unknown> | undefined>
+  set(key: string, row: Record<string, unknown>): Promise<void>
+  /** Column whose values key the model's entries, or null for uncached models. */
+  keyColumn(model: string): string | null
+  /** Drops the entries for the given key column values. */
+  invalidate(model: string, values: unknown[]): Promise<void>
+}
+
+function createSessionCache(
+  schema: BetterAuthDBSchema,
+  columns: ColumnMapper,
+  config: SessionCacheConfig,
+  tenant: TenantScope | null = null
+): SessionCache {
+  const { store = memoryStore(), ttl = 60_000, prefix = 'better-lucid' } = config
+  // Entries of tenant-scoped models are keyed by tenant, so lookups never cross tenants.
+  const cacheKey = (model: string, value: unknown) =>
+    tenant?.column(model)
+      ? `${prefix}:${tenant.current()}:${model}:${value}`
+      : `${prefix}:${model}:${value}`
+
+  const keyColumn = (model: string) => {
+    const field = CACHED_LOOKUPS[model]
+    if (!field) return null
+    return columns.column(model, (schema[model]?.fields[field] as any)?.fieldName ?? field)
+  }
+
+  return {
+    keyColumn,
+    key(model, where) {
+      const column = keyColumn(model)
+      if (!column || where?.length !== 1) return null
+
+      const [{ field, operator, value, mode }] = where
+      if (field !== column || operator !== 'eq' || mode === 'insensitive') return null
+      return typeof value === 'string' || typeof value === 'number' ? cacheKey(model, value) : null
+    },
+    async get(model, key) {
+      const row = (await store.get(key)) as Record<string, unknown> | undefined
+      if (!row) return undefined
+
+      // Serializing stores hand dates back as ISO strings.
+      for (const [name, field] of Object.entries(schema[model]?.fields ?? {})) {
+        const fieldName = (field as any).fieldName ?? name
+        if (field.type === 'date' && typeof row[fieldName] === 'string') {
+          row[fieldName] = new Date(row[fieldName] as string)
+        }
+      }
+      return row
+    },
+    async set(key, row) {
+      await store.set(key, row, ttl)
+    },
+    async invalidate(model, values) {
+      await store.delete(values.map((value) => cacheKey(model, value)))
+    },
+  }
+}
+
+/**
+ * Returns the cache key column values of the rows a write's where clause
+ * matches. Read before the write, since an update may change the key itself.
+ */
+async function matchedCacheValues(
+  cache: SessionCache | null,
+  model: string,
+  query: any
+): Promise<unknown[]> {
+  const column = cache?.keyColumn(model)
+  if (!column) return []
+
+  const rows = await query.clone().select(column)
+  return rows.map((row: Record<string, unknown>) => row[column])
 }
 
 // ============================================================================
-// Schema generation helpers (used by createSchema)
+// Soft delete
 // ============================================================================
 
-/** Converts a camelCase field name to snake_case for use as a DB column name. */
-function camelToSnake(str: string): string {
-  return str.replace(/([A-Z])/g, '_$1').toLowerCase()
-}
+/**
+ * Permanently deletes the rows of `softDelete` models that were soft-deleted
+ * before `cutoff`. Models are purged in reverse schema order, so children go
+ * before the parents they reference. Returns the number of rows deleted.
+ */
+async function purgeSoftDeleted(
+  client: LucidQueryClient,
+  schema: BetterAuthDBSchema,
+  columns: ColumnMapper,
+  dialect: LucidDialect,
+  config: LucidAdapterConfig,
+  cutoff: Date
+): Promise<number> {
+  const models = (config.softDelete ?? [])
+    .filter((model) => schema[model])
+    .sort((a, b) => (schema[b].order ?? 999) - (schema[a].order ?? 999))
+
+  let purged = 0
+  for (const model of models) {
+    const tableName = getTableName(model, getSchemaModelName(schema, model, config), config)
+    const deleted = await client
+      .from(tableName)
+      .where(columns.deletedAt(model)!, '<', toDialectDate(cutoff, dialect))
+      .delete()
+    purged += Number(deleted)
+  }
 
-/** Returns a `YYYYMMDDHHmmss` timestamp string for migration filenames. */
-function generateTimestamp(): string {
-  const now = new Date()
-  const pad = (n: number) => String(n).padStart(2, '0')
-  return [
-    now.getFullYear(),
-    pad(now.getMonth() + 1),
-    pad(now.getDate()),
-    pad(now.getHours()),
-    pad(now.getMinutes()),
-    pad(now.getSeconds()),
-  ].join('')
+  return purged
 }
 
-/** Returns the DB column name for a schema field, respecting the `fieldName` override. */
-function getColumnName(schemaKey: string, field: DBFieldAttribute): string {
-  return (field as any).fieldName ?? camelToSnake(schemaKey)
+// ============================================================================
+// Pruning
+// ============================================================================
+
+export type PruneOptions = {
+  /**
+   * Rows deleted per statement.
+   * @default 1000
+   */
+  batchSize?: number
+
+  /** Count the rows that would be deleted, without deleting them. */
+  dryRun?: boolean
+
+  /**
+   * Milliseconds a row is kept after it expired, per kind of row. Plugin
+   * rows are those of non-core models with an `expiresAt` field.
+   * @default { session: 0, verification: 0, plugins: 0 }
+   */
+  olderThan?: { session?: number; verification?: number; plugins?: number }
+
+  /**
+   * Also prune expired plugin rows (invitations, device codes, ...), or only
+   * those of the listed models.
+   * @default false
+   */
+  plugins?: boolean | string[]
 }
 
-/** Maps a better-auth `DBFieldType` to the Lucid schema builder method name. */
-function getKnexType(field: DBFieldAttribute): string {
-  const type = field.type as string
-  if (type === 'string') {
-    return (field as any).sortable ? 'string' : 'text'
+/** Rows deleted per model key, or that would be deleted on a dry run. */
+export type PruneResult = Record<string, number>
+
+const CORE_MODELS = ['user', 'session', 'account', 'verification']
+
+/**
+ * Deletes expired sessions and verification rows, and optionally expired
+ * plugin rows, in batches of `batchSize` ids so no statement locks the whole
+ * table. Verification rows of a `softDelete` model were consumed once they
+ * are soft-deleted, and go as well. Pruning spans every tenant.
+ */
+async function pruneExpiredRows(
+  client: LucidQueryClient,
+  schema: BetterAuthDBSchema,
+  columns: ColumnMapper,
+  dialect: LucidDialect,
+  config: LucidAdapterConfig,
+  { batchSize = 1000, dryRun = false, olderThan = {}, plugins = false }: PruneOptions
+): Promise<PruneResult> {
+  const now = Date.now()
+  const cutoff = (age = 0) => toDialectDate(new Date(now - age), dialect)
+
+  const targets: { model: string; age?: number }[] = [
+    { model: 'session', age: olderThan.session },
+    { model: 'verification', age: olderThan.verification },
+  ]
+  if (plugins) {
+    for (const [model, table] of Object.entries(schema)) {
+      if (CORE_MODELS.includes(model) || table.fields.expiresAt?.type !== 'date') continue
+      if (plugins === true || plugins.includes(model)) {
+        targets.push({ model, age: olderThan.plugins })
+      }
+    }
   }
-  if (type === 'number') {
-    return (field as any).bigint ? 'bigInteger' : 'integer'
+
+  const result: PruneResult = {}
+  for (const { model, age } of targets) {
+    if (!schema[model]) continue
+    const tableName = getTableName(model, getSchemaModelName(schema, model, config), config)
+    const idColumn = columns.column(model, 'id')
+    const expiresAt = columns.column(
+      model,
+      (schema[model].fields.expiresAt as any)?.fieldName ?? 'expiresAt'
+    )
+    const deletedAt = model === 'verification' ? columns.deletedAt(model) : null
+
+    const expired = (query: any) =>
+      query.where((q: any) => {
+        q.where(expiresAt, '<', cutoff(age))
+        if (deletedAt) q.orWhere(deletedAt, '<', cutoff(age))
+      })
+
+    if (dryRun) {
+      const [row] = await expired(client.from(tableName)).count('* as total')
+      result[model] = Number(row?.total ?? row?.['count(*)'] ?? 0)
+      continue
+    }
+
+    result[model] = 0
+    while (true) {
+      const rows: Record<string, unknown>[] = await expired(client.from(tableName))
+        .select(idColumn)
+        .limit(batchSize)
+      if (rows.length === 0) break
+
+      const ids = rows.map((row) => row[idColumn])
+      const deleted = Number(
+        await client
+          .from(tableName)
+          .whereIn(idColumn, ids as any[])
+          .delete()
+      )
+      result[model] += deleted
+      // Rows the delete cannot remove (an RLS policy, a concurrent write)
+      // would be selected again forever.
+      if (rows.length < batchSize || deleted === 0) break
+    }
   }
-  if (type === 'boolean') return 'boolean'
-  if (type === 'date') return 'timestamp'
-  if (type === 'json') return 'jsonb'
-  // string[] or number[] — serialised as JSON text
-  return 'text'
-}
 
-const ON_DELETE_MAP: Record<string, string> = {
-  'cascade': 'CASCADE',
-  'set null': 'SET NULL',
-  'restrict': 'RESTRICT',
-  'no action': 'NO ACTION',
-  'set default': 'SET DEFAULT',
+  return result
 }
 
 /**
- * Builds the Lucid column chain string for a single field.
- * Does NOT include the leading `table.` — callers add that.
+ * Prunes expired rows through the adapter of a better-auth instance, for
+ * registering with a scheduler:
  *
- * @example
- *   buildColumnChain('userId', field, tables)
- *   // → "text('user_id').notNullable().references('id').inTable('user').onDelete('CASCADE')"
+ *   scheduler.call(() => pruneExpired(auth)).hourly()
  */
-function buildColumnChain(
-  schemaKey: string,
-  field: DBFieldAttribute,
-  allTables: BetterAuthDBSchema
-): string {
-  const colName = getColumnName(schemaKey, field)
-  const knexType = getKnexType(field)
-
-  // Base column definition
-  const typeArg = knexType === 'timestamp' ? `'${colName}', { useTz: true }` : `'${colName}'`
-  let chain = `${knexType}(${typeArg})`
-
-  // Primary key (only for 'id' fields)
-  if (schemaKey === 'id') {
-    chain += '.primary()'
+export async function pruneExpired(
+  auth: { $context: Promise<{ adapter: DBAdapter }> },
+  options: PruneOptions = {}
+): Promise<PruneResult> {
+  const { adapter } = await auth.$context
+  if (typeof adapter.options?.pruneExpired !== 'function') {
+    throw new Error('[better-lucid] The better-auth instance is not using the better-lucid adapter')
   }
+  return adapter.options.pruneExpired(options)
+}
 
-  // Nullability — required defaults to true
-  if ((field as any).required !== false) {
-    chain += '.notNullable()'
-  } else {
-    chain += '.nullable()'
-  }
+// ============================================================================
+// Tenant scoping
+// ============================================================================
 
-  // Unique constraint
-  if ((field as any).unique) {
-    chain += '.unique()'
-  }
+/** Resolves the tenant column and value queries on scoped models are filtered by. */
+type TenantScope = {
+  /** Tenant column of the model, or null when the model is shared between tenants. */
+  column(model: string): string | null
+  /** The current tenant. Throws when the resolver returns none. */
+  current(): string | number
+}
 
-  // Foreign key reference
-  const refs = (field as any).references
-  if (refs) {
-    const refModelName = allTables[refs.model]?.modelName ?? refs.model
-    const onDelete = ON_DELETE_MAP[refs.onDelete ?? 'cascade'] ?? 'CASCADE'
-    chain += `.references('${refs.field}').inTable('${refModelName}').onDelete('${onDelete}')`
-  } else if ((field as any).index) {
-    // Only add .index() when there's no FK (FK already creates an index)
-    chain += '.index()'
-  }
+function createTenantScope(config: LucidAdapterConfig): TenantScope | null {
+  const { tenant } = config
+  if (!tenant) return null
+  const column = tenant.column ?? 'tenant_id'
 
-  return chain
+  return {
+    column: (model) => (!tenant.models || tenant.models.includes(model) ? column : null),
+    current() {
+      const value = tenant.resolve()
+      if (value === null || value === undefined) {
+        throw new Error('[better-lucid] No tenant resolved for a tenant-scoped operation')
+      }
+      return value
+    },
+  }
 }
 
+// ============================================================================
+// Row-level security
+// ============================================================================
+
 /**
- * Generates a `this.schema.createTable(...)` block for a single table.
- * The `id` field is always emitted first; remaining fields follow in schema order.
+ * Returns a function applying the `rls` settings to a transaction. Uses
+ * `set_config(name, value, true)`, the parameterised form of `SET LOCAL`:
+ * the settings end with the transaction.
  */
-function generateCreateTableBlock(
-  modelName: string,
-  fields: Record<string, DBFieldAttribute>,
-  allTables: BetterAuthDBSchema,
-  indent: string
-): string {
-  const lines: string[] = []
+function createRlsPreparer(
+  config: LucidAdapterConfig
+): ((trx: LucidQueryClient) => Promise<void>) | null {
+  const { rls } = config
+  if (!rls) return null
+
+  return async (trx) => {
+    const settings = Object.entries(await rls.settings()).filter(
+      ([, value]) => value !== null && value !== undefined
+    )
+    if (settings.length === 0) return
 
-  // id first
-  if (fields['id']) {
-    lines.push(`${indent}  table.${buildColumnChain('id', fields['id'], allTables)}`)
+    await trx.rawQuery(
+      `select ${settings.map(() => 'set_config(?, ?, true)').join(', ')}`,
+      settings.flatMap(([name, value]) => [name, String(value)])
+    )
   }
+}
 
-  // Remaining fields in definition order
-  for (const [key, field] of Object.entries(fields)) {
-    if (key === 'id') continue
-    lines.push(`${indent}  table.${buildColumnChain(key, field, allTables)}`)
-  }
+// ============================================================================
+// Keyset pagination
+// ============================================================================
 
-  return `${indent}this.schema.createTable('${modelName}', (table) => {\n${lines.join('\n')}\n${indent}})`
+/** Sort order of a paginated listing. Rows with equal sort values are ordered by id. */
+export type PaginationSort = { field: string; direction: 'asc' | 'desc' }
+
+export type PaginateOptions = {
+  /** better-auth model key, e.g. `'user'`. */
+  model: string
+  where?: Where[]
+
+  /**
+   * The sort field should be non-nullable, e.g. `createdAt`.
+   * @default { field: 'id', direction: 'asc' }
+   */
+  sortBy?: PaginationSort
+
+  /** @default 100 */
+  limit?: number
+
+  /** `nextCursor` of the previous page. Omit it for the first page. */
+  cursor?: string | null
+
+  /** Fields to return; `id` and the sort field are always included. */
+  select?: string[]
+}
+
+export type Page<T = Record<string, unknown>> = {
+  rows: T[]
+  /** Cursor of the page after this one, or null on the last page. */
+  nextCursor: string | null
 }
 
 /**
- * Queries `information_schema.tables` and returns the set of table names
- * that currently exist in the `public` schema.
+ * Encodes the position of `row` in a listing sorted by `sortBy` as an opaque
+ * cursor: its id, and its sort value unless the listing is sorted by id.
+ * `paginate` returns the rows after it.
  */
-async function queryExistingTables(db: Database): Promise<Set<string>> {
-  const rows = await db
-    .from('information_schema.tables')
-    .where('table_schema', 'public')
-    .where('table_type', 'BASE TABLE')
-    .select('table_name')
+export function paginationCursor(row: Record<string, unknown>, sortBy?: PaginationSort): string {
+  const position = sortBy && sortBy.field !== 'id' ? [row.id, row[sortBy.field]] : [row.id]
+  return Buffer.from(JSON.stringify(position)).toString('base64url')
+}
 
-  return new Set(rows.map((r: any) => r.table_name as string))
+/** Decodes a cursor into `[id]` or `[id, sortValue]`. */
+function decodeCursor(cursor: string, sorted: boolean): unknown[] {
+  let position: unknown
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    position = null
+  }
+  if (!Array.isArray(position) || position.length !== (sorted ? 2 : 1)) {
+    throw new APIError('BAD_REQUEST', {
+      message: 'Invalid pagination cursor',
+      code: 'INVALID_PAGINATION_CURSOR',
+    })
+  }
+  return position
 }
 
 /**
- * Queries `information_schema.columns` for the given table names and returns
- * a map of `tableName → Set<columnName>`.
+ * Orders the query by the sort column, then by id as the tiebreaker. With a
+ * cursor, only the rows after it are kept: `(sort, id) > (value, cursorId)`,
+ * or `<` when descending.
  */
-async function queryExistingColumns(
-  db: Database,
-  tableNames: string[]
-): Promise<Map<string, Set<string>>> {
-  if (tableNames.length === 0) return new Map()
-
-  const rows = await db
-    .from('information_schema.columns')
-    .where('table_schema', 'public')
-    .whereIn('table_name', tableNames)
-    .select('table_name', 'column_name')
-
-  const result = new Map<string, Set<string>>()
-  for (const row of rows as Array<{ table_name: string; column_name: string }>) {
-    if (!result.has(row.table_name)) result.set(row.table_name, new Set())
-    result.get(row.table_name)!.add(row.column_name)
+function applyKeyset(
+  query: any,
+  sortColumn: string | null,
+  idColumn: string,
+  direction: 'asc' | 'desc',
+  position: unknown[] | null
+): void {
+  const operator = direction === 'desc' ? '<' : '>'
+  if (position && sortColumn) {
+    const [id, value] = position
+    query.where((group: any) =>
+      group
+        .where(sortColumn, operator, value)
+        .orWhere((tie: any) => tie.where(sortColumn, value).where(idColumn, operator, id))
+    )
+  } else if (position) {
+    query.where(idColumn, operator, position[0])
   }
-  return result
-}
 
-/** Wraps up/down bodies in a Lucid BaseSchema migration class string. */
-function wrapInBaseSchema(upBody: string, downBody: string): string {
-  return [
-    `import { BaseSchema } from '@adonisjs/lucid/schema'`,
-    ``,
-    `export default class extends BaseSchema {`,
-    `  async up() {`,
-    upBody,
-    `  }`,
-    ``,
-    `  async down() {`,
-    downBody,
-    `  }`,
-    `}`,
-    ``,
-  ].join('\n')
+  if (sortColumn) query.orderBy(sortColumn, direction)
+  query.orderBy(idColumn, direction)
 }
 
-// ============================================================================
-// Full migration generator (extracted for testability)
-// ============================================================================
+/**
+ * Cursor of the `paginate` call in progress. better-auth's `findMany` takes
+ * no cursor, so `paginate` hands it to the adapter's `findMany` this way.
+ */
+const pageCursor = new AsyncLocalStorage<{ cursor: string | null }>()
 
 /**
- * Generates a Lucid migration file string that reflects the current better-auth
- * schema (core tables + all enabled plugins).
+ * Fetches one page through the adapter of a better-auth instance. The query
+ * goes through its `findMany`, so where clauses and rows are transformed as
+ * for better-auth's own calls. One extra row is read to tell whether another
+ * page follows.
  *
- * Fresh DB  → full CREATE TABLE migration for every active table.
- * Existing  → incremental: ALTER TABLE ADD COLUMN / CREATE TABLE for new items;
- *             removed columns/tables are emitted as WARNING comments only.
+ *   const page = await paginate(auth, { model: 'user', cursor: request.input('cursor') })
  */
-async function generateLucidMigration(
-  db: Database,
-  tables: BetterAuthDBSchema,
-  file?: string
-): Promise<{ code: string; path: string; overwrite: boolean }> {
-  // 1. Filter and sort tables
-  const activeTables = Object.values(tables)
-    .filter((t) => !t.disableMigrations)
-    .sort((a, b) => (a.order ?? 999) - (b.order ?? 999))
+export async function paginate<T extends Record<string, unknown> = Record<string, unknown>>(
+  auth: { $context: Promise<{ adapter: DBAdapter }> },
+  { model, where, sortBy, limit = 100, cursor, select }: PaginateOptions
+): Promise<Page<T>> {
+  const { adapter } = await auth.$context
+  if (adapter.id !== 'lucid') {
+    throw new Error('[better-lucid] The better-auth instance is not using the better-lucid adapter')
+  }
 
-  const timestamp = generateTimestamp()
-  const outputPath = file ?? `database/migrations/${timestamp}_better_auth_schema.ts`
+  const rows = await pageCursor.run({ cursor: cursor ?? null }, () =>
+    adapter.findMany<T>({
+      model,
+      where,
+      sortBy,
+      limit: limit + 1,
+      select: select && [...new Set([...select, 'id', ...(sortBy ? [sortBy.field] : [])])],
+    })
+  )
+
+  const page = rows.slice(0, limit)
+  return {
+    rows: page,
+    nextCursor: rows.length > limit ? paginationCursor(page.at(-1)!, sortBy) : null,
+  }
+}
 
-  // 2. Detect current DB state using information_schema
-  const existingTables = await queryExistingTables(db)
-  const isFresh = !existingTables.has('user')
+// ============================================================================
+// Joins
+// ============================================================================
 
-  // ── FRESH MODE ────────────────────────────────────────────────
-  if (isFresh) {
-    const upBlocks = activeTables.map((t) =>
-      generateCreateTableBlock(t.modelName, t.fields, tables, '    ')
-    )
-    const downLines = [...activeTables]
-      .reverse()
-      .map((t) => `    this.schema.dropTableIfExists('${t.modelName}')`)
+/** A relation better-auth resolved from the schema `references`, as the queries need it. */
+type JoinPlan = {
+  /** Key of the nested rows in the result: the joined model's name. */
+  name: string
+  model: string
+  table: string
+  /** Column of the base table. */
+  from: string
+  /** Column of the joined table. */
+  to: string
+  many: boolean
+  limit: number
+  /** Alias of the joined table in the query. */
+  alias: string
+}
 
+function planJoins(
+  model: string,
+  join: JoinConfig | undefined,
+  config: LucidAdapterConfig,
+  columns: ColumnMapper,
+  resolveModel: (name: string) => string
+): JoinPlan[] {
+  return Object.entries(join ?? {}).map(([name, { modelKey, on, limit, relation }]) => {
+    const joined = resolveModel(modelKey ?? name)
     return {
-      code: wrapInBaseSchema(upBlocks.join('\n\n'), downLines.join('\n')),
-      path: outputPath,
-      overwrite: false,
+      name,
+      model: joined,
+      table: getTableName(joined, name, config),
+      from: columns.column(model, on.from),
+      to: columns.column(joined, on.to),
+      many: relation !== 'one-to-one',
+      limit: limit ?? 100,
+      alias: `join_${name}`,
     }
-  }
-
-  // ── INCREMENTAL MODE ──────────────────────────────────────────
-  const desiredTableNames = new Set(activeTables.map((t) => t.modelName))
-  const existingColumns = await queryExistingColumns(db, [...desiredTableNames])
-
-  const upStatements: string[] = []
-  const downStatements: string[] = []
-  const warnings: string[] = []
+  })
+}
 
-  for (const table of activeTables) {
-    const { modelName, fields } = table
+/** SQL conditions hiding joined rows of other tenants and soft-deleted ones. */
+function joinFilters(
+  plan: JoinPlan,
+  columns: ColumnMapper,
+  tenant: TenantScope | null
+): { sql: string[]; bindings: unknown[] } {
+  const sql: string[] = []
+  const bindings: unknown[] = []
+  const tenantColumn = tenant?.column(plan.model)
+  if (tenantColumn) {
+    sql.push('?? = ?')
+    bindings.push(tenantColumn, tenant!.current())
+  }
+  const deletedAt = columns.deletedAt(plan.model)
+  if (deletedAt) {
+    sql.push('?? is null')
+    bindings.push(deletedAt)
+  }
+  return { sql, bindings }
+}
 
-    if (!existingTables.has(modelName)) {
-      // New table from a plugin — CREATE TABLE
-      upStatements.push(generateCreateTableBlock(modelName, fields, tables, '    '))
-      downStatements.unshift(`    this.schema.dropTableIfExists('${modelName}')`)
-      continue
+/**
+ * Adds the joins to a findOne/findMany query. One-to-one relations become a
+ * LEFT JOIN on a derived table whose columns are prefixed with the alias, so
+ * they cannot clash with the base table's. On Postgres, one-to-many
+ * relations become a LATERAL subquery aggregating up to `limit` rows into a
+ * JSON array; other dialects load them in one query per relation afterwards.
+ */
+function applyJoins(
+  query: any,
+  tableName: string,
+  plans: JoinPlan[],
+  columns: ColumnMapper,
+  tenant: TenantScope | null,
+  dialect: LucidDialect
+): void {
+  if (plans.length === 0) return
+  query.select(`${tableName}.*`)
+
+  for (const plan of plans) {
+    const { sql, bindings } = joinFilters(plan, columns, tenant)
+
+    if (!plan.many) {
+      const joined = columns.all(plan.model)
+      query.joinRaw(
+        `left join (select ${joined.map(() => '?? as ??').join(', ')} from ??` +
+          `${sql.length > 0 ? ` where ${sql.join(' and ')}` : ''}) as ?? on ?? = ??`,
+        [
+          ...joined.flatMap((column) => [column, `${plan.alias}__${column}`]),
+          plan.table,
+          ...bindings,
+          plan.alias,
+          `${plan.alias}.${plan.alias}__${plan.to}`,
+          `${tableName}.${plan.from}`,
+        ]
+      )
+      query.select(`${plan.alias}.*`)
+    } else if (dialect === 'postgres') {
+      query.joinRaw(
+        `left join lateral (select coalesce(json_agg(??), '[]'::json) as ?? from ` +
+          `(select * from ?? where ?? = ??${sql.map((condition) => ` and ${condition}`).join('')} ` +
+          `limit ?) as ??) as ?? on true`,
+        [
+          'rows',
+          plan.alias,
+          plan.table,
+          plan.to,
+          `${tableName}.${plan.from}`,
+          ...bindings,
+          plan.limit,
+          'rows',
+          plan.alias,
+        ]
+      )
+      query.select(`${plan.alias}.${plan.alias}`)
     }
+  }
+}
 
-    // Existing table — check for new columns (ALTER TABLE ADD COLUMN)
-    const currentCols = existingColumns.get(modelName) ?? new Set<string>()
-    const addColLines: string[] = []
-
-    for (const [schemaKey, field] of Object.entries(fields)) {
-      if (schemaKey === 'id') continue
-      const colName = getColumnName(schemaKey, field)
-      if (!currentCols.has(colName)) {
-        addColLines.push(`      table.${buildColumnChain(schemaKey, field, tables)}`)
-      }
-    }
+/** Column numbering the related rows per key outside Postgres. */
+const JOIN_RANK = 'join_rank'
 
-    if (addColLines.length > 0) {
-      upStatements.push(
-        `    this.schema.table('${modelName}', (table) => {\n${addColLines.join('\n')}\n    })`
-      )
-      // Reverse: drop the freshly added columns
-      const dropLines = addColLines
-        .map((line) => {
-          const m = line.match(/table\.\w+\('([^']+)'/)
-          return m ? `      table.dropColumn('${m[1]}')` : null
-        })
-        .filter(Boolean) as string[]
-      if (dropLines.length > 0) {
-        downStatements.push(
-          `    this.schema.table('${modelName}', (table) => {\n${dropLines.join('\n')}\n    })`
-        )
+/**
+ * Splits the joined columns off each result row into nested rows keyed by
+ * the joined model's name, the shape better-auth's transformOutput expects.
+ * One-to-many rows not aggregated by the query are loaded here, one query
+ * per relation for all base rows, ranked with `row_number()` so each key
+ * gets at most the join's `limit` rows.
+ */
+async function nestJoins(
+  client: LucidQueryClient,
+  rows: Record<string, unknown>[],
+  plans: JoinPlan[],
+  schema: BetterAuthDBSchema,
+  columns: ColumnMapper,
+  tenant: TenantScope | null,
+  dialect: LucidDialect
+): Promise<{ row: Record<string, unknown>; nested: Record<string, unknown> }[]> {
+  const results = rows.map((row) => ({ row: { ...row }, nested: {} as Record<string, unknown> }))
+
+  for (const plan of plans) {
+    if (!plan.many) {
+      const prefix = `${plan.alias}__`
+      for (const { row, nested } of results) {
+        const joined: Record<string, unknown> = {}
+        for (const key of Object.keys(row)) {
+          if (!key.startsWith(prefix)) continue
+          joined[key.slice(prefix.length)] = row[key]
+          delete row[key]
+        }
+        nested[plan.name] =
+          joined[plan.to] === null || joined[plan.to] === undefined
+            ? null
+            : columns.row(plan.model, joined)
       }
-    }
-
-    // Warn about columns in DB that are no longer in the schema
-    for (const existingCol of currentCols) {
-      if (existingCol === 'id') continue
-      const stillDesired = Object.entries(fields).some(
-        ([k, f]) => getColumnName(k, f) === existingCol
-      )
-      if (!stillDesired) {
-        warnings.push(
-          `    // WARNING: '${modelName}.${existingCol}' is no longer in your better-auth config.`,
-          `    // Remove it manually if desired:`,
-          `    // this.schema.table('${modelName}', (table) => { table.dropColumn('${existingCol}') })`
-        )
+    } else if (dialect === 'postgres') {
+      // json_agg returns dates as strings.
+      const dates = Object.entries(schema[plan.model]?.fields ?? {})
+        .filter(([, field]) => field.type === 'date')
+        .map(([key, field]) => field.fieldName ?? key)
+      for (const { row, nested } of results) {
+        const joined = (row[plan.alias] ?? []) as Record<string, unknown>[]
+        delete row[plan.alias]
+        nested[plan.name] = joined.map((item) => {
+          const mapped = columns.row(plan.model, item)
+          for (const field of dates) {
+            if (typeof mapped[field] === 'string') mapped[field] = new Date(mapped[field] as string)
+          }
+          return mapped
+        })
+      }
+    } else {
+      const keys = [...new Set(results.map(({ row }) => row[plan.from]))].filter(
+        (key) => key !== null && key !== undefined
+      )
+      const byKey = new Map<string, Record<string, unknown>[]>()
+      if (keys.length > 0) {
+        // Numbers the rows per key, so the database returns at most `limit` each.
+        const ranked = client
+          .from(plan.table)
+          .select(`${plan.table}.*`)
+          .select(
+            client.raw('row_number() over (partition by ?? order by ??) as ??', [
+              plan.to,
+              columns.column(plan.model, 'id'),
+              JOIN_RANK,
+            ])
+          )
+          .whereIn(plan.to, keys as any[])
+        applyModelWhere(ranked, plan.model, undefined, dialect, columns, tenant)
+        const query = client.from(ranked.as(plan.alias)).where(JOIN_RANK, '<=', plan.limit)
+
+        for (const joined of (await query) as Record<string, unknown>[]) {
+          delete joined[JOIN_RANK]
+          const group = byKey.get(String(joined[plan.to])) ?? []
+          group.push(columns.row(plan.model, joined))
+          byKey.set(String(joined[plan.to]), group)
+        }
+      }
+      for (const { row, nested } of results) {
+        nested[plan.name] = byKey.get(String(row[plan.from])) ?? []
       }
     }
   }
 
-  // Warn about entire tables that exist in DB but were removed from config.
-  for (const existingTable of existingTables) {
-    if (!desiredTableNames.has(existingTable)) {
-      const wasOurs = activeTables.some((t) => t.modelName === existingTable)
-      if (wasOurs) {
-        warnings.push(
-          `    // WARNING: Table '${existingTable}' exists in DB but is no longer in your config.`,
-          `    // Drop it manually if desired:`,
-          `    // this.schema.dropTableIfExists('${existingTable}')`
-        )
-      }
+  return results
+}
+
+// ============================================================================
+// Field encryption
+// ============================================================================
+
+/** Rows read and rewritten per query by `reencryptFields`. */
+const REENCRYPT_BATCH_SIZE = 500
+
+/**
+ * Encrypts the fields configured in `encryptFields`. better-auth's custom
+ * transform hooks identify a field by model name and either its `fieldName`
+ * (input) or its key (output), so both are matched.
+ */
+type FieldEncrypter = {
+  /** Whether the field of the model is stored encrypted. */
+  has(model: string, field: string): boolean
+  /** Encrypts with the first configured key. */
+  encrypt(value: unknown): string
+  /** Decrypts with the first key that succeeds; returns the value as-is when none does. */
+  decrypt(value: unknown): unknown
+  /** Decrypts with the first key that succeeds; null when none does. */
+  tryDecrypt(value: unknown): unknown
+}
+
+function createFieldEncrypter(
+  schema: BetterAuthDBSchema,
+  config: LucidAdapterConfig
+): FieldEncrypter | null {
+  const { encryptFields, encryption } = config
+  if (!encryptFields) return null
+  if (!encryption) {
+    throw new Error('[better-lucid] encryptFields requires the encryption option')
+  }
+  const [current, ...previous] = Array.isArray(encryption) ? encryption : [encryption]
+
+  const fields = new Set<string>()
+  for (const [model, keys] of Object.entries(encryptFields)) {
+    if (!schema[model]) continue
+    const modelName = getSchemaModelName(schema, model, config)
+    for (const key of keys) {
+      fields.add(`${modelName}.${key}`)
+      fields.add(`${modelName}.${(schema[model].fields[key] as any)?.fieldName ?? key}`)
     }
   }
 
-  if (upStatements.length === 0 && warnings.length === 0) {
-    return {
-      code: `// better-auth schema is already in sync with your database. No changes needed.\n`,
-      path: outputPath,
-      overwrite: false,
-    }
+  return {
+    has: (model, field) => fields.has(`${model}.${field}`),
+    encrypt: (value) => current.encrypt(value),
+    decrypt(value) {
+      return this.tryDecrypt(value) ?? value
+    },
+    tryDecrypt(value) {
+      for (const key of [current, ...previous]) {
+        const decrypted = key.decrypt(value)
+        if (decrypted !== null) return decrypted
+      }
+      return null
+    },
   }
+}
 
-  const upBody = [...upStatements, ...(warnings.length > 0 ? ['', ...warnings] : [])].join('\n\n')
+/**
+ * Shape of the AdonisJS encryption service's output: the encrypted value, its
+ * IV and their HMAC, base64url-encoded and joined by dots.
+ */
+const CIPHERTEXT = /^[\w-]+\.[\w-]+\.[\w-]+$/
 
-  const downBody =
-    downStatements.length > 0
-      ? downStatements.join('\n\n')
-      : '    // No automatic rollback for incremental changes — run manually if needed.'
+/** Rows `reencryptFields` rewrote, and stored values no configured key decrypts. */
+type ReencryptResult = { rewritten: number; undecryptable: number }
 
-  return {
-    code: wrapInBaseSchema(upBody, downBody),
-    path: outputPath,
-    overwrite: false,
+/**
+ * Rewrites every stored `encryptFields` value with the current key. Values
+ * are decrypted with any configured key and encrypted again; values that are
+ * not ciphertext are taken as plaintext. Ciphertext no key decrypts is left
+ * untouched and counted, since encrypting it again would lose it for good.
+ * Rows are walked in id order, in batches.
+ */
+async function reencryptFields(
+  client: LucidQueryClient,
+  schema: BetterAuthDBSchema,
+  columns: ColumnMapper,
+  encrypter: FieldEncrypter,
+  config: LucidAdapterConfig
+): Promise<ReencryptResult> {
+  const result: ReencryptResult = { rewritten: 0, undecryptable: 0 }
+
+  for (const [model, keys] of Object.entries(config.encryptFields ?? {})) {
+    if (!schema[model]) continue
+    const tableName = getTableName(model, getSchemaModelName(schema, model, config), config)
+    const idColumn = columns.column(model, 'id')
+    const fieldColumns = keys.map((key) =>
+      columns.column(model, (schema[model].fields[key] as any)?.fieldName ?? key)
+    )
+
+    let lastId: unknown = null
+    while (true) {
+      const query = client
+        .from(tableName)
+        .select(idColumn, ...fieldColumns)
+        .orderBy(idColumn)
+        .limit(REENCRYPT_BATCH_SIZE)
+      if (lastId !== null) query.where(idColumn, '>', lastId as any)
+      const rows: Record<string, unknown>[] = await query
+
+      for (const row of rows) {
+        const changes: Record<string, string> = {}
+        for (const column of fieldColumns) {
+          const value = row[column]
+          if (value === null || value === undefined) continue
+          const decrypted = encrypter.tryDecrypt(value)
+          if (decrypted === null && typeof value === 'string' && CIPHERTEXT.test(value)) {
+            result.undecryptable++
+            continue
+          }
+          changes[column] = encrypter.encrypt(decrypted ?? value)
+        }
+        if (Object.keys(changes).length > 0) {
+          await client
+            .from(tableName)
+            .where(idColumn, row[idColumn] as any)
+            .update(changes)
+          result.rewritten++
+        }
+      }
+
+      if (rows.length < REENCRYPT_BATCH_SIZE) break
+      lastId = rows[rows.length - 1][idColumn]
+    }
   }
+
+  return result
 }
 
-/** @internal Exported for unit testing only. */
-export const adapterTestHelpers = {
-  camelToSnake: (s: string) => camelToSnake(s),
-  buildColumnChain: (k: string, f: DBFieldAttribute, t: BetterAuthDBSchema) =>
-    buildColumnChain(k, f, t),
-  generateCreateTableBlock: (
-    m: string,
-    f: Record<string, DBFieldAttribute>,
-    t: BetterAuthDBSchema,
-    i: string
-  ) => generateCreateTableBlock(m, f, t, i),
-  wrapInBaseSchema: (up: string, down: string) => wrapInBaseSchema(up, down),
-  generateLucidMigration: (db: Database, tables: BetterAuthDBSchema, file?: string) =>
-    generateLucidMigration(db, tables, file),
+// ============================================================================
+// Audit log
+// ============================================================================
+
+/** Mutating operations recorded in the audit log. */
+const AUDITED_OPERATIONS = ['create', 'update', 'updateMany', 'delete', 'deleteMany'] as const
+
+type AuditedOperation = (typeof AUDITED_OPERATIONS)[number]
+
+/** Columns of the audit log table, described as a better-auth model for the generator. */
+const AUDIT_LOG_FIELDS = {
+  model: { type: 'string', required: true, index: true },
+  operation: { type: 'string', required: true },
+  recordIds: { type: 'json', required: true },
+  changes: { type: 'json', required: false },
+  createdAt: { type: 'date', required: true, index: true },
+} as Record<string, DBFieldAttribute>
+
+/** The audit log table name, or null when auditing is off. */
+function getAuditTable(config: LucidAdapterConfig): string | null {
+  if (!config.audit) return null
+  return (config.audit === true ? undefined : config.audit.table) ?? 'auth_audit_log'
+}
+
+/**
+ * Writes audit log entries. Entries go through the client the write ran on,
+ * which is a transaction whenever auditing is on (see `withOperationTransactions`).
+ */
+type AuditLog = {
+  /** Whether writes to the model are audited. */
+  covers(model: string): boolean
+  /** Ids of the rows a write's where clause matches. Read before the write. */
+  matchedIds(model: string, query: any): Promise<unknown[]>
+  /** Records a write to the given rows; `data` is its insert/update payload. */
+  record(
+    client: LucidQueryClient,
+    model: string,
+    operation: AuditedOperation,
+    ids: unknown[],
+    data?: Record<string, unknown>
+  ): Promise<void>
+}
+
+function createAuditLog(
+  config: LucidAdapterConfig,
+  columns: ColumnMapper,
+  dialect: LucidDialect
+): AuditLog | null {
+  const table = getAuditTable(config)
+  if (!table) return null
+
+  const models = typeof config.audit === 'object' ? config.audit.models : undefined
+  const redact = createRedactor(config.redact)
+  const column = (field: string) => applyNamingStrategy(field, config.namingStrategy)
+  const covers = (model: string) => !models || models.includes(model)
+
+  return {
+    covers,
+    async matchedIds(model, query) {
+      if (!covers(model)) return []
+      const idColumn = columns.column(model, 'id')
+      const rows = await query.clone().select(idColumn)
+      return rows.map((row: Record<string, unknown>) => row[idColumn])
+    },
+    async record(client, model, operation, ids, data) {
+      if (!covers(model) || ids.length === 0) return
+
+      // JSON is always sent as text: the pg driver would turn a bare array
+      // into a Postgres array literal.
+      await client.table(qualifyTable(table, config.schema)).insert({
+        ...(config.idStrategy === 'serial' ? {} : { [column('id')]: randomUUID() }),
+        [column('model')]: model,
+        [column('operation')]: operation,
+        [column('recordIds')]: JSON.stringify(ids.map(String)),
+        [column('changes')]: data ? JSON.stringify(redact(data)) : null,
+        [column('createdAt')]: toDialectDate(new Date(), dialect),
+      })
+    },
+  }
 }
 
 // ============================================================================
-// WHERE condition helper (used by CRUD operations)
+// Constraint violations
 // ============================================================================
 
 /**
- * Applies an array of better-auth CleanedWhere conditions to a Lucid query builder.
- *
- * The first condition always uses .where() / .whereIn().
- * Subsequent conditions check the `connector` field:
- *   - "OR"  → .orWhere() / .orWhereIn()
- *   - "AND" (default) → .andWhere() / .andWhereIn()
+ * Driver error codes of constraint violations: Postgres SQLSTATEs, MySQL and
+ * better-sqlite3 codes, and MSSQL error numbers.
  */
-function applyWhereConditions(query: any, where: CleanedWhere[]): void {
-  for (const [i, { field, value, operator, connector }] of where.entries()) {
-    const useOr = i > 0 && connector === 'OR'
+const VIOLATION_CODES: Record<string, typeof UniqueConstraintError> = {
+  '23505': UniqueConstraintError,
+  '23503': ForeignKeyConstraintError,
+  '23502': NotNullConstraintError,
+  'ER_DUP_ENTRY': UniqueConstraintError,
+  'ER_NO_REFERENCED_ROW_2': ForeignKeyConstraintError,
+  'ER_ROW_IS_REFERENCED_2': ForeignKeyConstraintError,
+  'ER_BAD_NULL_ERROR': NotNullConstraintError,
+  'SQLITE_CONSTRAINT_UNIQUE': UniqueConstraintError,
+  'SQLITE_CONSTRAINT_PRIMARYKEY': UniqueConstraintError,
+  'SQLITE_CONSTRAINT_FOREIGNKEY': ForeignKeyConstraintError,
+  'SQLITE_CONSTRAINT_NOTNULL': NotNullConstraintError,
+  '2627': UniqueConstraintError,
+  '2601': UniqueConstraintError,
+  '547': ForeignKeyConstraintError,
+  '515': NotNullConstraintError,
+}
 
-    switch (operator) {
-      case 'in':
-        if (useOr) {
-          query.orWhereIn(field, Array.isArray(value) ? value : [value])
-        } else {
-          query.whereIn(field, Array.isArray(value) ? value : [value])
-        }
-        break
+/** node-sqlite3 only reports `SQLITE_CONSTRAINT`; the kind is in the message. */
+const SQLITE_VIOLATIONS: Record<string, typeof UniqueConstraintError> = {
+  'UNIQUE': UniqueConstraintError,
+  'PRIMARY KEY': UniqueConstraintError,
+  'FOREIGN KEY': ForeignKeyConstraintError,
+  'NOT NULL': NotNullConstraintError,
+}
 
-      case 'not_in':
-        if (useOr) {
-          query.orWhereNotIn(field, Array.isArray(value) ? value : [value])
-        } else {
-          query.whereNotIn(field, Array.isArray(value) ? value : [value])
-        }
-        break
+/** First capture group of `pattern` in `text`. */
+function capture(text: unknown, pattern: RegExp): string | undefined {
+  return typeof text === 'string' ? pattern.exec(text)?.[1] : undefined
+}
 
-      case 'contains':
-        if (useOr) {
-          query.orWhere(field, 'like', `%${value}%`)
-        } else {
-          query.where(field, 'like', `%${value}%`)
-        }
-        break
+/**
+ * The column a constraint named the way knex names them (`user_email_unique`,
+ * `session_user_id_foreign`) was created on; the last one for composite keys.
+ */
+function constraintColumn(
+  constraint: string | null,
+  model: string,
+  columns: ColumnMapper
+): string | undefined {
+  const name = constraint?.toLowerCase()
+  if (!name) return undefined
+  return columns
+    .all(model)
+    .filter((column) =>
+      ['unique', 'foreign'].some((suffix) => name.endsWith(`_${column.toLowerCase()}_${suffix}`))
+    )
+    .sort((a, b) => b.length - a.length)[0]
+}
 
-      case 'starts_with':
-        if (useOr) {
-          query.orWhere(field, 'like', `${value}%`)
-        } else {
-          query.where(field, 'like', `${value}%`)
-        }
-        break
+/**
+ * Converts a driver error for a constraint violation into the matching
+ * ConstraintViolationError; returns null for any other error. The column and
+ * constraint are read from the fields Postgres reports, else from the
+ * message of the other drivers. tedious reports every SQL error as
+ * `EREQUEST`, with the MSSQL error number in `number`.
+ */
+function toConstraintError(error: any, model: string, columns: ColumnMapper): Error | null {
+  const code = String(error?.code === 'EREQUEST' ? error.number : (error?.code ?? error?.number))
+  const ErrorClass =
+    code === 'SQLITE_CONSTRAINT'
+      ? SQLITE_VIOLATIONS[capture(error.message, /([A-Z ]+) constraint failed/)?.trim() ?? '']
+      : VIOLATION_CODES[code]
+  if (!ErrorClass) return null
+
+  const message = error.message
+  const constraint =
+    error.constraint ??
+    capture(message, /for key '(?:[^']*\.)?([^']+)'/) ??
+    capture(message, /CONSTRAINT [`"']([^`"']+)[`"']/) ??
+    capture(message, /constraint ["']([^"']+)["']/i) ??
+    capture(message, /unique index '([^']+)'/i) ??
+    null
+  const column =
+    error.column ??
+    capture(error.detail, /^Key \(([^)]+)\)=/)
+      ?.split(', ')
+      .pop() ??
+    // MSSQL foreign key messages name the referenced column instead.
+    (code === '547' ? undefined : capture(message, /column '([^']+)'/i)) ??
+    capture(message, /FOREIGN KEY \(`([^`]+)`\)/) ??
+    capture(message, /constraint failed: [^.\s]+\.(\w+)/) ??
+    constraintColumn(constraint, model, columns) ??
+    null
+
+  return new ErrorClass(
+    {
+      model,
+      field: column && Object.keys(columns.row(model, { [column]: null }))[0],
+      column,
+      constraint,
+    },
+    error
+  )
+}
 
-      case 'ends_with':
-        if (useOr) {
-          query.orWhere(field, 'like', `%${value}`)
-        } else {
-          query.where(field, 'like', `%${value}`)
-        }
-        break
+/**
+ * Driver error codes of cancelled queries: Postgres `query_canceled` (as
+ * raised by `statement_timeout`), MySQL's `max_execution_time` and tedious's
+ * request timeout.
+ */
+const TIMEOUT_CODES = ['57014', 'ER_QUERY_TIMEOUT', 'ETIMEOUT']
+
+/** Converts a Knex or driver timeout into a QueryTimeoutError; returns null for any other error. */
+function toTimeoutError(error: any, model: string, operation: string): Error | null {
+  if (error?.name !== 'KnexTimeoutError' && !TIMEOUT_CODES.includes(error?.code)) return null
+  const timeout = capture(error.message, /timeout of (\d+)ms/)
+  return new QueryTimeoutError(
+    { model, operation, timeout: timeout === undefined ? null : Number(timeout) },
+    error
+  )
+}
 
-      default: {
-        const opMap: Record<string, string> = {
-          eq: '=',
-          ne: '!=',
-          lt: '<',
-          lte: '<=',
-          gt: '>',
-          gte: '>=',
+/**
+ * Rethrows constraint violations and timeouts of every operation as the
+ * typed errors of `errors.ts`.
+ */
+function withTypedErrors(
+  creator: AdapterFactoryCustomizeAdapterCreator,
+  columns: ColumnMapper
+): AdapterFactoryCustomizeAdapterCreator {
+  return (helpers) => {
+    const adapter: Record<string, any> = creator(helpers)
+    const wrapped = { ...adapter }
+
+    for (const operation of INSTRUMENTED_OPERATIONS) {
+      wrapped[operation] = async (args: any) => {
+        try {
+          return await adapter[operation](args)
+        } catch (error) {
+          const model = helpers.getDefaultModelName(args.model)
+          throw (
+            toTimeoutError(error, model, operation) ??
+            toConstraintError(error, model, columns) ??
+            error
+          )
         }
-        const sqlOp = opMap[operator] ?? '='
-        if (useOr) {
-          query.orWhere(field, sqlOp, value)
-        } else {
-          query.where(field, sqlOp, value)
+      }
+    }
+
+    return wrapped as ReturnType<AdapterFactoryCustomizeAdapterCreator>
+  }
+}
+
+// ============================================================================
+// Instrumentation
+// ============================================================================
+
+/** Operations reported through the emitter and logger. */
+const INSTRUMENTED_OPERATIONS: BetterLucidQueryEvent['operation'][] = [
+  'create',
+  'findOne',
+  'findMany',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'count',
+]
+
+/** Fields whose values never reach the logs, compared ignoring case and underscores. */
+const SENSITIVE_FIELDS = [
+  'password',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'idToken',
+  'secret',
+  'backupCodes',
+  'privateKey',
+]
+
+const normalizeFieldName = (field: string) => field.replace(/_/g, '').toLowerCase()
+
+/**
+ * Returns a function that replaces sensitive values in an insert/update
+ * payload or where clause with `[redacted]`.
+ */
+function createRedactor(extra: string[] = []) {
+  const sensitive = new Set([...SENSITIVE_FIELDS, ...extra].map(normalizeFieldName))
+  const isSensitive = (field: string) => sensitive.has(normalizeFieldName(field))
+
+  return (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((w) => (isSensitive(w.field) ? { ...w, value: '[redacted]' } : w))
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, isSensitive(k) ? '[redacted]' : v])
+      )
+    }
+    return value
+  }
+}
+
+/** Rows returned, affected or counted by an operation's result. */
+function countRows(operation: string, result: unknown): number | null {
+  if (operation === 'delete') return null
+  if (Array.isArray(result)) return result.length
+  if (typeof result === 'number') return result
+  return result ? 1 : 0
+}
+
+/**
+ * Wraps the CRUD methods of an adapter creator so every call emits a
+ * `better_lucid:query` event and, with `debugLogs`, a redacted debug log
+ * line on the configured logger. Returns the creator untouched when neither
+ * an emitter nor a logger is configured.
+ */
+function instrumentAdapter(
+  creator: AdapterFactoryCustomizeAdapterCreator,
+  config: LucidAdapterConfig
+): AdapterFactoryCustomizeAdapterCreator {
+  const { emitter, logger } = config
+  if (!emitter && !logger) return creator
+  const redact = createRedactor(config.redact)
+
+  return (helpers) => {
+    const adapter: Record<string, any> = creator(helpers)
+    const instrumented = { ...adapter }
+
+    for (const operation of INSTRUMENTED_OPERATIONS) {
+      instrumented[operation] = async (args: any) => {
+        const model = helpers.getDefaultModelName(args.model)
+        const table = getTableName(model, helpers.getModelName(args.model), config)
+        const start = performance.now()
+        let result: unknown
+        let error: unknown
+
+        try {
+          result = await adapter[operation](args)
+          return result
+        } catch (err) {
+          error = err
+          throw err
+        } finally {
+          const event: BetterLucidQueryEvent = {
+            model,
+            operation,
+            table,
+            duration: performance.now() - start,
+            rowCount: error ? 0 : countRows(operation, result),
+            ...(error ? { error } : {}),
+          }
+          // Listener errors must not fail the query or go unhandled.
+          emitter
+            ?.emit('better_lucid:query', event)
+            .catch((err) =>
+              logger?.error({ err }, '[better-lucid] better_lucid:query listener failed')
+            )
+          if (config.debugLogs && logger) {
+            logger.debug(
+              { ...event, where: redact(args.where), data: redact(args.data ?? args.update) },
+              `better-lucid ${operation} ${table}`
+            )
+          }
         }
       }
     }
+
+    return instrumented as ReturnType<AdapterFactoryCustomizeAdapterCreator>
   }
 }
 
@@ -464,106 +2882,240 @@ function applyWhereConditions(query: any, where: CleanedWhere[]): void {
 // Adapter factory
 // ============================================================================
 
+/** Services the CRUD implementation uses, resolved when better-auth initialises. */
+type AdapterContext = {
+  dialect: LucidDialect
+  columns: ColumnMapper
+  cache: SessionCache | null
+  encrypter: FieldEncrypter | null
+  audit: AuditLog | null
+  tenant: TenantScope | null
+  timeouts: QueryTimeouts | null
+}
+
 /**
  * Creates a better-auth database adapter backed by AdonisJS Lucid's
- * raw query builder. Targets PostgreSQL as the primary database.
+ * raw query builder. Supports PostgreSQL, MySQL, SQLite and MSSQL; the
+ * dialect is detected from the Lucid connection unless configured.
  *
  * @param db  - The AdonisJS Lucid Database instance
  * @param config - Optional adapter configuration
  */
-export const lucidAdapter = (db: Database, config: LucidAdapterConfig = {}) =>
-  createAdapterFactory({
-    config: {
-      adapterId: 'lucid',
-      adapterName: 'AdonisJS Lucid Adapter',
-      usePlural: config.usePlural ?? false,
-      debugLogs: config.debugLogs ?? false,
-
-      // PostgreSQL natively supports JSON/JSONB columns.
-      supportsJSON: true,
-
-      // Let better-auth pass real Date objects; Knex handles serialization.
-      supportsDates: true,
-
-      // PostgreSQL handles booleans natively.
-      supportsBooleans: true,
-
-      // better-auth generates string IDs (nanoid-based) by default.
-      supportsNumericIds: false,
-
-      // PostgreSQL supports ARRAY columns, but better-auth rarely uses them.
-      supportsArrays: false,
+export const lucidAdapter = (db: Database, config: LucidAdapterConfig = {}) => {
+  /** Last write time per model, for read-your-writes replica routing. */
+  const recentWrites = new Map<string, number>()
+
+  /** Lucid models mapped in `config.models`, imported on first use. A failed import is retried. */
+  const loadedModels = new Map<string, Promise<LucidModel>>()
+  const loadModel = (model: string): Promise<LucidModel> | null => {
+    const loader = config.models?.[model]
+    if (!loader) return null
+    if (!loadedModels.has(model)) {
+      loadedModels.set(
+        model,
+        loader().then(
+          (module) => module.default,
+          (error) => {
+            loadedModels.delete(model)
+            throw error
+          }
+        )
+      )
+    }
+    return loadedModels.get(model)!
+  }
 
-      // Transaction support: delegate to Lucid's transaction() callback API.
-      transaction: async <R>(callback: (trx: any) => Promise<R>): Promise<R> => {
-        return db.transaction(async (trx) => {
-          return callback(trx)
-        })
-      },
-    },
+  /** Migration generator options derived from the adapter config. */
+  const generatorOptions = (
+    dialect: LucidDialect,
+    connection = config.connection
+  ): SchemaGeneratorOptions => ({
+    dialect,
+    connection,
+    schema: config.schema,
+    tablePrefix: config.tablePrefix,
+    tables: config.tables,
+    namingStrategy: config.namingStrategy,
+    nativeArrays: config.nativeArrays,
+    idStrategy: config.idStrategy,
+    softDelete: config.softDelete,
+    auditTable: getAuditTable(config) ?? undefined,
+    tenant: config.tenant,
+    rlsPolicies: config.rls?.policies
+      ? config.rls.policies === true
+        ? {}
+        : config.rls.policies
+      : undefined,
+  })
 
-    adapter: ({
+  /**
+   * Returns the CRUD implementation bound to the given query router. The
+   * default adapter routes through `db`; inside `transaction` a fresh copy
+   * is bound to the Lucid transaction client so every query runs on `trx`.
+   * Rows are returned keyed by field name; the factory applies
+   * `transformOutput` to them.
+   */
+  const createCustomAdapter =
+    (
+      router: QueryRouter,
+      { dialect, columns, cache, encrypter, audit, tenant, timeouts }: AdapterContext
+    ): AdapterFactoryCustomizeAdapterCreator =>
+    ({
+      options: authOptions,
+      schema,
       getModelName,
       getDefaultModelName,
-      transformInput,
-      transformOutput,
+      getFieldName,
       transformWhereClause,
     }) => ({
       // ----------------------------------------------------------------
       // CREATE
       // ----------------------------------------------------------------
-      async create({ model, data, select }) {
-        const tableName = getModelName(model)
+      async create({ model, data }) {
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
         const defaultModelName = getDefaultModelName(model)
 
-        const transformed = await transformInput(
-          data as Record<string, unknown>,
-          defaultModelName,
-          'create'
-        )
+        // The adapter factory has already run transformInput on `data`.
+        const transformed = data as Record<string, unknown>
+        const payload = columns.payload(defaultModelName, transformed)
+        const tenantColumn = tenant?.column(defaultModelName)
+        if (tenantColumn) payload[tenantColumn] = tenant!.current()
+
+        const client = router.write(defaultModelName)
+        const Model = await loadModel(defaultModelName)
+        if (Model) {
+          // The tenant goes through the model property mapped to its column.
+          const values = tenantColumn
+            ? {
+                ...transformed,
+                [Model.$keys.columnsToAttributes.get(tenantColumn, tenantColumn)]:
+                  payload[tenantColumn],
+              }
+            : transformed
+          const instance = await Model.create(await toModelDates(Model, values), {
+            client: toQueryClient(client, config.connection),
+          })
+          await audit?.record(client, defaultModelName, 'create', [instance.$attributes.id], data)
+          return fromModelDates(instance.$attributes) as any
+        }
 
-        const [row] = await db.table(tableName).insert(transformed).returning('*')
+        const idColumn = columns.column(defaultModelName, 'id')
+        if (DIALECT_FEATURES[dialect].returning) {
+          const [row] = await client.table(tableName).insert(payload).returning('*')
+          await audit?.record(client, defaultModelName, 'create', [row[idColumn]], data)
+          return columns.row(defaultModelName, row) as any
+        }
+
+        // No RETURNING: re-select by the generated id, or the auto-increment
+        // id the driver reports for the insert.
+        const [insertId] = await client.table(tableName).insert(payload)
+        const id = (transformed.id as any) ?? insertId
+        await audit?.record(client, defaultModelName, 'create', [id], data)
+        const row = await client.from(tableName).where(idColumn, id).first()
 
-        return transformOutput(row, defaultModelName, select) as any
+        return (row ? columns.row(defaultModelName, row) : null) as any
       },
 
       // ----------------------------------------------------------------
       // FIND ONE
       // ----------------------------------------------------------------
-      async findOne({ model, where, select }) {
-        const tableName = getModelName(model)
+      async findOne({ model, where, join }) {
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
         const defaultModelName = getDefaultModelName(model)
+        const joins = planJoins(defaultModelName, join, config, columns, getDefaultModelName)
+
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'findOne' })
+        )
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'findOne' })
+        // Session-by-token lookups can opt out of replicas entirely.
+        const isSessionLookup =
+          defaultModelName === 'session' &&
+          !!cleanedWhere?.some(
+            (w) =>
+              w.field ===
+              columns.column('session', getFieldName({ model: 'session', field: 'token' }))
+          )
+        const client = router.read(
+          defaultModelName,
+          isSessionLookup && !!config.readReplicas?.primarySessionLookups
+        )
 
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
+        // Cached rows hold no joined rows.
+        const cacheKey =
+          joins.length > 0 ? null : (cache?.key(defaultModelName, cleanedWhere) ?? null)
+        if (cacheKey) {
+          const cached = await cache!.get(defaultModelName, cacheKey)
+          if (cached) return cached as any
         }
 
-        const row = await query.first()
-        if (!row) return null
+        const query = client.from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        applyJoins(query, tableName, joins, columns, tenant, dialect)
+
+        const found = await query.first()
+        if (!found) return null
+
+        const [{ row, nested }] = await nestJoins(
+          client,
+          [found],
+          joins,
+          schema,
+          columns,
+          tenant,
+          dialect
+        )
+        const mapped = columns.row(defaultModelName, row)
+        if (cacheKey) await cache!.set(cacheKey, mapped)
 
-        return transformOutput(row, defaultModelName, select) as any
+        return { ...mapped, ...nested } as any
       },
 
       // ----------------------------------------------------------------
       // FIND MANY
       // ----------------------------------------------------------------
-      async findMany({ model, where, limit, sortBy, offset, select }) {
-        const tableName = getModelName(model)
+      async findMany({ model, where, limit, sortBy, offset, join }) {
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
         const defaultModelName = getDefaultModelName(model)
+        const joins = planJoins(defaultModelName, join, config, columns, getDefaultModelName)
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'findMany' })
-
-        const query = db.from(tableName)
-
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
-        }
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'findMany' })
+        )
 
-        if (sortBy) {
-          query.orderBy(sortBy.field, sortBy.direction)
+        const client = router.read(defaultModelName)
+        const query = client.from(tableName)
+
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        applyJoins(query, tableName, joins, columns, tenant, dialect)
+
+        // Inside `paginate`, the rows after its cursor: keyset pagination.
+        const cursor = pageCursor.getStore()?.cursor ?? null
+        if (sortBy || cursor) {
+          const field = sortBy
+            ? getFieldName({ model: defaultModelName, field: sortBy.field })
+            : 'id'
+          const sortColumn = field === 'id' ? null : columns.column(defaultModelName, field)
+          const position = cursor ? decodeCursor(cursor, !!sortColumn) : null
+
+          // Cursors carry dates as ISO strings.
+          if (
+            position &&
+            sortColumn &&
+            schema[defaultModelName]?.fields[sortBy!.field]?.type === 'date'
+          ) {
+            position[1] = toDialectDate(new Date(position[1] as string), dialect)
+          }
+
+          applyKeyset(
+            query,
+            sortColumn,
+            columns.column(defaultModelName, 'id'),
+            sortBy?.direction ?? 'asc',
+            position
+          )
         }
 
         if (limit !== undefined && limit !== null) {
@@ -574,100 +3126,171 @@ export const lucidAdapter = (db: Database, config: LucidAdapterConfig = {}) =>
           query.offset(offset)
         }
 
-        const rows = await query
+        const rows = await nestJoins(client, await query, joins, schema, columns, tenant, dialect)
 
-        return Promise.all(
-          rows.map((row: Record<string, unknown>) => transformOutput(row, defaultModelName, select))
-        ) as any
+        return rows.map(({ row, nested }) => ({
+          ...columns.row(defaultModelName, row),
+          ...nested,
+        })) as any
       },
 
       // ----------------------------------------------------------------
       // UPDATE
       // ----------------------------------------------------------------
       async update({ model, where, update }) {
-        const tableName = getModelName(model)
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
         const defaultModelName = getDefaultModelName(model)
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'update' })
-        const transformed = await transformInput(
-          update as Record<string, unknown>,
+        const cleanedWhere = columns.where(
           defaultModelName,
-          'update'
+          transformWhereClause({ model, where, action: 'update' })
         )
+        const data = update as Record<string, unknown>
+        const transformed = columns.payload(defaultModelName, data)
+
+        const client = router.write(defaultModelName)
+        const Model = await loadModel(defaultModelName)
+        if (Model) {
+          const modelQuery = Model.query({ client: toQueryClient(client, config.connection) })
+          applyModelWhere(modelQuery, defaultModelName, cleanedWhere, dialect, columns, tenant)
+          const cached = await matchedCacheValues(cache, defaultModelName, modelQuery)
+
+          const instance = await modelQuery.first()
+          if (!instance) return null
+
+          await instance.merge(await toModelDates(Model, data)).save()
+          await cache?.invalidate(defaultModelName, cached)
+          await audit?.record(client, defaultModelName, 'update', [instance.$attributes.id], data)
+          return fromModelDates(instance.$attributes) as any
+        }
+
+        const query = client.from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        const cached = await matchedCacheValues(cache, defaultModelName, query)
+        const idColumn = columns.column(defaultModelName, 'id')
+
+        if (DIALECT_FEATURES[dialect].returning) {
+          const [row] = await query.update(transformed).returning('*')
+          await cache?.invalidate(defaultModelName, cached)
+          if (!row) return null
+          await audit?.record(client, defaultModelName, 'update', [row[idColumn]], data)
 
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
+          return columns.row(defaultModelName, row) as any
         }
 
-        const [row] = await query.update(transformed).returning('*')
-        if (!row) return null
+        // No RETURNING: capture the target id first, since the update may
+        // change the very columns the where clause matches on.
+        const target = await query.clone().select(idColumn).first()
+        if (!target) return null
 
-        return transformOutput(row, defaultModelName) as any
+        await query.update(transformed)
+        await cache?.invalidate(defaultModelName, cached)
+        await audit?.record(client, defaultModelName, 'update', [target[idColumn]], data)
+        const row = await client.from(tableName).where(idColumn, target[idColumn]).first()
+
+        return (row ? columns.row(defaultModelName, row) : null) as any
       },
 
       // ----------------------------------------------------------------
       // UPDATE MANY
       // ----------------------------------------------------------------
       async updateMany({ model, where, update }) {
-        const tableName = getModelName(model)
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
         const defaultModelName = getDefaultModelName(model)
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'updateMany' })
-        const transformed = await transformInput(update, defaultModelName, 'update')
-
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
-        }
-
-        return query.update(transformed) as any
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'updateMany' })
+        )
+        const transformed = columns.payload(defaultModelName, update)
+
+        const client = router.write(defaultModelName)
+        const query = client.from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        const cached = await matchedCacheValues(cache, defaultModelName, query)
+        const ids = (await audit?.matchedIds(defaultModelName, query)) ?? []
+
+        const updated = await query.update(transformed)
+        await cache?.invalidate(defaultModelName, cached)
+        await audit?.record(client, defaultModelName, 'updateMany', ids, update)
+        return updated as any
       },
 
       // ----------------------------------------------------------------
       // DELETE
       // ----------------------------------------------------------------
       async delete({ model, where }) {
-        const tableName = getModelName(model)
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
+        const defaultModelName = getDefaultModelName(model)
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'delete' })
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'delete' })
+        )
 
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
+        const client = router.write(defaultModelName)
+        const Model = await loadModel(defaultModelName)
+        const query = Model
+          ? Model.query({ client: toQueryClient(client, config.connection) })
+          : client.from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        const cached = await matchedCacheValues(cache, defaultModelName, query)
+        const ids = (await audit?.matchedIds(defaultModelName, query)) ?? []
+
+        const deletedAt = columns.deletedAt(defaultModelName)
+        if (deletedAt) {
+          await query.update({ [deletedAt]: toDialectDate(new Date(), dialect) })
+        } else if (Model) {
+          const instance = await query.first()
+          await instance?.delete()
+        } else {
+          await query.delete()
         }
-
-        await query.delete()
+        await cache?.invalidate(defaultModelName, cached)
+        await audit?.record(client, defaultModelName, 'delete', ids)
       },
 
       // ----------------------------------------------------------------
       // DELETE MANY
       // ----------------------------------------------------------------
       async deleteMany({ model, where }) {
-        const tableName = getModelName(model)
-
-        const cleanedWhere = transformWhereClause({ model, where, action: 'deleteMany' })
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
+        const defaultModelName = getDefaultModelName(model)
 
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
-        }
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'deleteMany' })
+        )
 
-        return query.delete() as any
+        const client = router.write(defaultModelName)
+        const query = client.from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
+        const cached = await matchedCacheValues(cache, defaultModelName, query)
+        const ids = (await audit?.matchedIds(defaultModelName, query)) ?? []
+
+        const deletedAt = columns.deletedAt(defaultModelName)
+        const deleted = deletedAt
+          ? await query.update({ [deletedAt]: toDialectDate(new Date(), dialect) })
+          : await query.delete()
+        await cache?.invalidate(defaultModelName, cached)
+        await audit?.record(client, defaultModelName, 'deleteMany', ids)
+        return deleted as any
       },
 
       // ----------------------------------------------------------------
       // COUNT
       // ----------------------------------------------------------------
       async count({ model, where }) {
-        const tableName = getModelName(model)
+        const tableName = getTableName(getDefaultModelName(model), getModelName(model), config)
+        const defaultModelName = getDefaultModelName(model)
 
-        const cleanedWhere = transformWhereClause({ model, where, action: 'count' })
+        const cleanedWhere = columns.where(
+          defaultModelName,
+          transformWhereClause({ model, where, action: 'count' })
+        )
 
-        const query = db.from(tableName)
-        if (cleanedWhere && cleanedWhere.length > 0) {
-          applyWhereConditions(query, cleanedWhere)
-        }
+        const query = router.read(defaultModelName).from(tableName)
+        applyModelWhere(query, defaultModelName, cleanedWhere, dialect, columns, tenant)
 
         const [result] = await query.count('* as total')
         return Number(result?.total ?? result?.['count(*)'] ?? 0)
@@ -677,11 +3300,214 @@ export const lucidAdapter = (db: Database, config: LucidAdapterConfig = {}) =>
       // CREATE SCHEMA
       //
       // Delegates to generateLucidMigration (see above). The factory wrapper
-      // ignores the first argument and derives `tables` from getAuthTables(options),
-      // so the logic lives in the standalone function for direct testability.
+      // ignores the first argument; tables come from getMigrationTables, shared
+      // with generateMigration, and the logic lives in the standalone function
+      // for direct testability.
       // ----------------------------------------------------------------
-      async createSchema({ file, tables }) {
-        return generateLucidMigration(db, tables, file)
+      async createSchema({ file }) {
+        const catalog = timeouts
+          ? withTimeout(router.primary, timeouts.introspection, timeouts.cancel)
+          : router.primary
+        return generateLucidMigration(
+          catalog,
+          getMigrationTables(authOptions),
+          file,
+          generatorOptions(dialect)
+        )
       },
-    }),
-  })
+
+      // ----------------------------------------------------------------
+      // MAINTENANCE
+      //
+      // Exposed on `auth.$context.adapter.options` for the ace commands.
+      // ----------------------------------------------------------------
+      options: {
+        async reencryptFields(): Promise<ReencryptResult> {
+          if (!encrypter) return { rewritten: 0, undecryptable: 0 }
+          return reencryptFields(router.primary, schema, columns, encrypter, config)
+        },
+        async purgeSoftDeleted(cutoff: Date): Promise<number> {
+          return purgeSoftDeleted(router.primary, schema, columns, dialect, config, cutoff)
+        },
+        async pruneExpired(options: PruneOptions = {}): Promise<PruneResult> {
+          return pruneExpiredRows(router.primary, schema, columns, dialect, config, options)
+        },
+        /**
+         * Generates the migration `createSchema` would, for `better-auth:generate`.
+         * `name` replaces `better_auth_schema` in the default file name, and
+         * `connection` introspects and tags another Lucid connection.
+         */
+        async generateMigration({
+          file,
+          name,
+          connection,
+        }: { file?: string; name?: string; connection?: string } = {}) {
+          const other = connection !== undefined && connection !== config.connection
+          const client = other ? db.connection(connection) : router.primary
+          const catalog = timeouts
+            ? withTimeout(client, timeouts.introspection, timeouts.cancel)
+            : client
+          const result = await generateLucidMigration(
+            catalog,
+            getMigrationTables(authOptions),
+            file ?? (name ? `database/migrations/${generateTimestamp()}_${name}.ts` : undefined),
+            generatorOptions(other ? detectDialect(db, connection) : dialect, connection)
+          )
+          return { ...result, inSync: result.code === IN_SYNC_CODE }
+        },
+      },
+    })
+
+  return (options: BetterAuthOptions) => {
+    // Resolved when better-auth initialises, after the Lucid connection exists.
+    const dialect = config.dialect ?? detectDialect(db, config.connection)
+
+    // Queries go through the named connection when one is configured. With
+    // read replicas, the primary and replica clients are pinned explicitly.
+    const client: LucidQueryClient = config.readReplicas
+      ? db.connection(config.connection, { mode: 'write' })
+      : config.connection
+        ? db.connection(config.connection)
+        : db
+    const replica = config.readReplicas ? db.connection(config.connection, { mode: 'read' }) : null
+    const stickyWindow = config.readReplicas?.stickyWindow ?? 5000
+    const features = DIALECT_FEATURES[dialect]
+    const idStrategy = config.idStrategy ?? 'string'
+    if (config.nativeArrays && !features.arrays) {
+      throw new Error(`[better-lucid] nativeArrays is not supported on the "${dialect}" dialect`)
+    }
+    if (config.rls && dialect !== 'postgres') {
+      throw new Error(`[better-lucid] rls is not supported on the "${dialect}" dialect`)
+    }
+    // Cached rows would be served without the policies filtering them.
+    if (config.rls && config.cache) {
+      throw new Error('[better-lucid] cache cannot be combined with rls')
+    }
+    const schema = getAuthTables(options)
+    const columns = createColumnMapper(schema, config)
+    const tenant = createTenantScope(config)
+    const cache = config.cache ? createSessionCache(schema, columns, config.cache, tenant) : null
+    const context: AdapterContext = {
+      dialect,
+      columns,
+      cache,
+      encrypter: createFieldEncrypter(schema, config),
+      audit: createAuditLog(config, columns, dialect),
+      tenant,
+      timeouts: resolveTimeouts(config, dialect),
+    }
+    const { encrypter, audit, timeouts } = context
+    const prepare = createRlsPreparer(config)
+    const retry = createRetrier(config)
+
+    // Copies bound to a transaction read past the cache. Their writes drop the
+    // entries once the transaction commits: dropped earlier, a lookup racing
+    // the commit would cache the old row again.
+    const bindToTransaction = (trx: TransactionClientContract) =>
+      createCustomAdapter(createQueryRouter(trx, null, recentWrites, stickyWindow, timeouts), {
+        ...context,
+        cache: cache && {
+          ...cache,
+          key: () => null,
+          async invalidate(model, values) {
+            trx.after('commit', () => cache.invalidate(model, values))
+          },
+        },
+      })
+
+    const adapterConfig: AdapterFactoryConfig = {
+      adapterId: 'lucid',
+      adapterName: 'AdonisJS Lucid Adapter',
+      usePlural: config.usePlural ?? false,
+      // With an app logger, debug output goes through instrumentAdapter instead.
+      debugLogs: config.logger ? false : (config.debugLogs ?? false),
+
+      // Only PostgreSQL stores JSON natively; elsewhere better-auth stringifies it.
+      supportsJSON: features.json,
+
+      // Let better-auth pass real Date objects where the driver handles them;
+      // SQLite and MSSQL get ISO strings instead.
+      supportsDates: features.dates,
+
+      // PostgreSQL handles booleans natively; other dialects store 0/1.
+      supportsBooleans: features.booleans,
+
+      // better-auth generates string IDs (nanoid-based) by default. Serial IDs
+      // are left to the database; UUIDs come from the database where the
+      // dialect has a generator, otherwise from crypto.randomUUID().
+      supportsNumericIds: idStrategy === 'serial',
+      supportsUUIDs: idStrategy === 'uuid' && features.uuidDefault !== null,
+      disableIdGeneration: idStrategy === 'serial',
+      customIdGenerator: idStrategy === 'uuid' ? () => randomUUID() : undefined,
+
+      // Native Postgres arrays are opt-in; otherwise better-auth stores JSON strings.
+      supportsArrays: !!config.nativeArrays,
+
+      // `encryptFields` are encrypted on writes and decrypted on reads. They
+      // cannot be filtered on: every encryption uses a fresh IV.
+      customTransformInput: encrypter
+        ? ({ data, action, field, model }) =>
+            (action === 'create' || action === 'update') &&
+            data !== null &&
+            data !== undefined &&
+            encrypter.has(model, field)
+              ? encrypter.encrypt(data)
+              : data
+        : undefined,
+      customTransformOutput: encrypter
+        ? ({ data, field, model }) =>
+            typeof data === 'string' && encrypter.has(model, field) ? encrypter.decrypt(data) : data
+        : undefined,
+
+      // Transaction support: delegate to Lucid's transaction() callback API and
+      // hand better-auth an adapter bound to `trx`, so the whole callback
+      // commits or rolls back as one unit. Nested transactions are disabled on
+      // the bound copy — it is already inside one.
+      // With `retry`, a failed transaction re-runs the whole callback.
+      transaction: async <R>(callback: (trx: any) => Promise<R>): Promise<R> => {
+        const run = () =>
+          client.transaction(async (trx) => {
+            await prepare?.(trx)
+            const trxAdapter = createAdapterFactory({
+              config: { ...adapterConfig, transaction: false },
+              adapter: instrumentAdapter(withTypedErrors(bindToTransaction(trx), columns), config),
+            })(options)
+            return callback(trxAdapter)
+          })
+        return retry ? retry(run) : run()
+      },
+    }
+
+    const adapter = createCustomAdapter(
+      createQueryRouter(client, replica, recentWrites, stickyWindow, timeouts),
+      context
+    )
+
+    // With rls every operation, and with audit every audited write, runs in
+    // a transaction of its own.
+    const ownsTransaction = (operation: string, model: string) =>
+      !!prepare ||
+      (!!audit?.covers(model) && (AUDITED_OPERATIONS as readonly string[]).includes(operation))
+
+    const transactional =
+      prepare || audit
+        ? withOperationTransactions(adapter, client, bindToTransaction, ownsTransaction, prepare)
+        : adapter
+
+    // An operation in a transaction of its own is retried whole; any other
+    // only when running it twice is harmless.
+    const retrying = retry
+      ? withRetries(
+          transactional,
+          retry,
+          (operation, model) =>
+            ownsTransaction(operation, model) || IDEMPOTENT_OPERATIONS.includes(operation)
+        )
+      : transactional
+
+    return createAdapterFactory({
+      config: adapterConfig,
+      adapter: instrumentAdapter(withTypedErrors(retrying, columns), config),
+    })(options)
+  }
+}
@@ -0,0 +1,121 @@
+/*
+|--------------------------------------------------------------------------
+| Session lookup cache
+|--------------------------------------------------------------------------
+|
+| Caches the two reads every authenticated request makes through
+| `auth.api.getSession`: the session by token and its user by id. Entries
+| live in a pluggable store and are dropped whenever the adapter updates or
+| deletes the underlying rows.
+|
+|   lucidAdapter(db, { cache: {} })                              // in-process LRU
+|   lucidAdapter(db, { cache: { store: redisStore(redis) } })    // shared
+|
+*/
+
+/**
+ * Minimal key/value store the session cache writes to. Values are plain
+ * objects; stores that serialize them (Redis, AdonisJS cache) may hand back
+ * dates as ISO strings, which the cache revives.
+ */
+export interface CacheStore {
+  get(key: string): Promise<unknown | undefined>
+  set(key: string, value: unknown, ttl: number): Promise<void>
+  delete(keys: string[]): Promise<void>
+}
+
+export type SessionCacheConfig = {
+  /**
+   * Where cached rows live.
+   * @default memoryStore()
+   */
+  store?: CacheStore
+
+  /**
+   * Milliseconds an entry stays cached.
+   * @default 60000
+   */
+  ttl?: number
+
+  /**
+   * Prefix for every cache key, to share a store between apps.
+   * @default 'better-lucid'
+   */
+  prefix?: string
+}
+
+/**
+ * In-process LRU store. The least recently read entry is evicted once
+ * `maxEntries` is reached.
+ */
+export function memoryStore({ maxEntries = 1000 }: { maxEntries?: number } = {}): CacheStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return undefined
+
+      // Re-insert to mark the entry as most recently used.
+      entries.set(key, entry)
+      return entry.value
+    },
+    async set(key, value, ttl) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttl })
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+    async delete(keys) {
+      for (const key of keys) entries.delete(key)
+    },
+  }
+}
+
+/** The subset of the `@adonisjs/cache` service the store uses. */
+type AdonisCache = {
+  get(options: { key: string }): Promise<unknown>
+  set(options: { key: string; value: unknown; ttl: number }): Promise<unknown>
+  deleteMany(options: { keys: string[] }): Promise<unknown>
+}
+
+/** Store backed by the `@adonisjs/cache` service (or one of its stores). */
+export function adonisCacheStore(cache: AdonisCache): CacheStore {
+  return {
+    async get(key) {
+      return (await cache.get({ key })) ?? undefined
+    },
+    async set(key, value, ttl) {
+      await cache.set({ key, value, ttl })
+    },
+    async delete(keys) {
+      if (keys.length > 0) await cache.deleteMany({ keys })
+    },
+  }
+}
+
+/** The subset of an `@adonisjs/redis` connection (or ioredis client) the store uses. */
+type RedisClient = {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, mode: 'PX', ttl: number): Promise<unknown>
+  del(...keys: string[]): Promise<unknown>
+}
+
+/** Store backed by a Redis connection. Values are stored as JSON. */
+export function redisStore(redis: RedisClient): CacheStore {
+  return {
+    async get(key) {
+      const value = await redis.get(key)
+      return value === null ? undefined : JSON.parse(value)
+    },
+    async set(key, value, ttl) {
+      await redis.set(key, JSON.stringify(value), 'PX', ttl)
+    },
+    async delete(keys) {
+      if (keys.length > 0) await redis.del(...keys)
+    },
+  }
+}
@@ -0,0 +1,118 @@
+/*
+|--------------------------------------------------------------------------
+| Adapter errors
+|--------------------------------------------------------------------------
+|
+| The adapter rethrows unique, foreign-key and not-null violations, and
+| queries that ran past their `timeouts`, as these errors. They extend
+| better-auth's APIError, so endpoints answer 409, 422 or 503 instead of
+| 500, and carry the model and what failed for logs. The driver error is
+| kept as `cause`.
+|
+|   catch (error) {
+|     if (error instanceof UniqueConstraintError) error.field // 'email'
+|   }
+|
+*/
+
+import { APIError } from 'better-auth/api'
+
+export type ConstraintViolation = {
+  /** better-auth model key of the failed operation, e.g. `'user'`. */
+  model: string
+  /** Field of the violated column, when the driver names the column. */
+  field: string | null
+  column: string | null
+  /** Constraint name, when the driver reports one. */
+  constraint: string | null
+}
+
+/** Base class of the errors the adapter throws for constraint violations. */
+export class ConstraintViolationError extends APIError {
+  declare model: string
+  declare field: string | null
+  declare column: string | null
+  declare constraint: string | null
+
+  constructor(
+    status: 'CONFLICT' | 'UNPROCESSABLE_ENTITY',
+    code: string,
+    message: string,
+    violation: ConstraintViolation,
+    cause: unknown
+  ) {
+    super(status, { message, code })
+    this.name = new.target.name
+    Object.assign(this, violation)
+    Object.defineProperty(this, 'cause', { value: cause, enumerable: false })
+  }
+}
+
+/** Where a violation happened, e.g. `user.email (user_email_unique)`. */
+function describe({ model, field, constraint }: ConstraintViolation): string {
+  return `${field ? `${model}.${field}` : model}${constraint ? ` (${constraint})` : ''}`
+}
+
+/** A unique constraint was violated (SQLSTATE 23505). Answers 409. */
+export class UniqueConstraintError extends ConstraintViolationError {
+  constructor(violation: ConstraintViolation, cause?: unknown) {
+    super(
+      'CONFLICT',
+      'UNIQUE_VIOLATION',
+      `Unique constraint violated on ${describe(violation)}`,
+      violation,
+      cause
+    )
+  }
+}
+
+/**
+ * A foreign key was violated (SQLSTATE 23503): the referenced row does not
+ * exist, or a deleted row is still referenced. Answers 422.
+ */
+export class ForeignKeyConstraintError extends ConstraintViolationError {
+  constructor(violation: ConstraintViolation, cause?: unknown) {
+    super(
+      'UNPROCESSABLE_ENTITY',
+      'FOREIGN_KEY_VIOLATION',
+      `Foreign key constraint violated on ${describe(violation)}`,
+      violation,
+      cause
+    )
+  }
+}
+
+/** A required column was written as null (SQLSTATE 23502). Answers 422. */
+export class NotNullConstraintError extends ConstraintViolationError {
+  constructor(violation: ConstraintViolation, cause?: unknown) {
+    super(
+      'UNPROCESSABLE_ENTITY',
+      'NOT_NULL_VIOLATION',
+      `Not-null constraint violated on ${describe(violation)}`,
+      violation,
+      cause
+    )
+  }
+}
+
+/** A query ran past its `timeouts` limit, or the database cancelled it. Answers 503. */
+export class QueryTimeoutError extends APIError {
+  /** better-auth model key of the operation. */
+  declare model: string
+  declare operation: string
+  /** The limit in milliseconds, when the adapter set it. */
+  declare timeout: number | null
+
+  constructor(
+    { model, operation, timeout }: { model: string; operation: string; timeout: number | null },
+    cause?: unknown
+  ) {
+    super('SERVICE_UNAVAILABLE', {
+      message: `${operation} on ${model} timed out${timeout === null ? '' : ` after ${timeout}ms`}`,
+      code: 'QUERY_TIMEOUT',
+    })
+    this.name = 'QueryTimeoutError'
+    Object.assign(this, { model, operation, timeout })
+    Object.defineProperty(this, 'cause', { value: cause, enumerable: false })
+  }
+}
@@ -19,6 +19,7 @@
 import type { HttpContext } from '@adonisjs/core/http'
 import type { NextFn } from '@adonisjs/core/types/http'
 import { fromNodeHeaders } from 'better-auth/node'
+import { QueryTimeoutError } from './errors.js'
 
 // Import types — triggers the HttpContext module augmentation
 import type {} from './types.js'
@@ -41,7 +42,14 @@ export default class BetterAuthMiddleware {
       }
     } catch (error) {
       ctx.auth = { session: null, user: null }
-      ctx.logger.warn({ err: error }, '[better-lucid] getSession failed — ctx.auth set to null')
+      if (error instanceof QueryTimeoutError) {
+        ctx.logger.error(
+          { err: error },
+          '[better-lucid] getSession timed out — ctx.auth set to null'
+        )
+      } else {
+        ctx.logger.warn({ err: error }, '[better-lucid] getSession failed — ctx.auth set to null')
+      }
     }
 
     await next()
@@ -51,6 +51,25 @@ export interface BetterAuthContext {
   user: BetterAuthUser | null
 }
 
+/**
+ * Payload of the `better_lucid:query` event the adapter emits for every
+ * operation when an `emitter` is configured.
+ */
+export interface BetterLucidQueryEvent {
+  /** better-auth model key, e.g. "session". */
+  model: string
+  operation:
+    'create' | 'findOne' | 'findMany' | 'update' | 'updateMany' | 'delete' | 'deleteMany' | 'count'
+  /** Physical table the operation ran against. */
+  table: string
+  /** Duration in milliseconds. */
+  duration: number
+  /** Rows returned, affected or counted; null when the driver does not report it. */
+  rowCount: number | null
+  /** The error the operation failed with, if any. */
+  error?: unknown
+}
+
 /**
  * Extends AdonisJS HttpContext with the `auth` property.
  * This augmentation takes effect globally once this module is imported.
@@ -64,3 +83,12 @@ declare module '@adonisjs/core/http' {
     auth: BetterAuthContext
   }
 }
+
+/**
+ * Types the `better_lucid:query` event on the AdonisJS emitter.
+ */
+declare module '@adonisjs/core/types' {
+  interface EventsList {
+    'better_lucid:query': BetterLucidQueryEvent
+  }
+}
@@ -1,5 +1,18 @@
 import { test } from '@japa/runner'
-import { adapterTestHelpers, lucidAdapter } from '../../src/adapter.js'
+import { Encryption } from '@adonisjs/core/encryption'
+import { APIError } from 'better-auth/api'
+import { getAuthTables } from 'better-auth/db'
+import * as orm from '@adonisjs/lucid/orm'
+import type { DateTime } from 'luxon'
+import { adapterTestHelpers, lucidAdapter, paginate, paginationCursor } from '../../src/adapter.js'
+import type { LucidAdapterConfig } from '../../src/adapter.js'
+import {
+  ConstraintViolationError,
+  ForeignKeyConstraintError,
+  NotNullConstraintError,
+  QueryTimeoutError,
+  UniqueConstraintError,
+} from '../../src/errors.js'
 
 // ---------------------------------------------------------------------------
 // Mock Lucid `db` object
@@ -8,6 +21,9 @@ import { adapterTestHelpers, lucidAdapter } from '../../src/adapter.js'
 // without a real PostgreSQL connection. End-to-end adapter tests against
 // a live DB can be added in tests/functional/.
 
+/** Stand-in for `db.connection()`, which the adapter reads the dialect from. */
+const postgresConnection = () => ({ dialect: { name: 'postgres' } })
+
 function createMockDb(overrides: Record<string, any> = {}) {
   const mockQuery = {
     where: () => mockQuery,
@@ -36,6 +52,7 @@ function createMockDb(overrides: Record<string, any> = {}) {
       }),
     }),
     transaction: async (cb: any) => cb({}),
+    connection: postgresConnection,
     ...overrides,
   }
 }
@@ -65,7 +82,7 @@ test.group('lucidAdapter — applyWhereConditions operators', () => {
    * builder received the correct method calls.
    */
 
-  function makeAdapter(dbOverrides: Record<string, any> = {}) {
+  function makeAdapter(dbOverrides: Record<string, any> = {}, config: LucidAdapterConfig = {}) {
     const calls: string[] = []
 
     const mockQuery = {
@@ -89,6 +106,14 @@ test.group('lucidAdapter — applyWhereConditions operators', () => {
         calls.push(`whereNotIn:${args[0]}`)
         return mockQuery
       },
+      whereRaw: (sql: string, bindings: unknown[]) => {
+        calls.push(`whereRaw:${sql}:${bindings.join('|')}`)
+        return mockQuery
+      },
+      orWhereRaw: (sql: string, bindings: unknown[]) => {
+        calls.push(`orWhereRaw:${sql}:${bindings.join('|')}`)
+        return mockQuery
+      },
       first: async () => null,
       delete: async () => 0,
       update: async () => [null],
@@ -101,10 +126,11 @@ test.group('lucidAdapter — applyWhereConditions operators', () => {
       from: () => mockQuery,
       table: () => ({ insert: () => ({ returning: async () => [null] }) }),
       transaction: async (cb: any) => cb({}),
+      connection: postgresConnection,
       ...dbOverrides,
     } as any
 
-    return { adapter: lucidAdapter(db), calls }
+    return { adapter: lucidAdapter(db, config), calls }
   }
 
   test('eq operator uses = by default', async ({ assert }) => {
@@ -152,6 +178,83 @@ test.group('lucidAdapter — applyWhereConditions operators', () => {
     })
     assert.isTrue(calls.some((c) => c.startsWith('orWhere:email')))
   })
+
+  test('LIKE operators escape wildcards in the value', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter()
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [
+        { field: 'name', value: '50%_off', operator: 'contains' },
+        { field: 'email', value: 'a_b', operator: 'starts_with', connector: 'OR' },
+      ],
+    })
+    assert.deepEqual(calls, [
+      'whereRaw:?? like ? escape ?:name|%50\\%\\_off%|\\',
+      'orWhereRaw:?? like ? escape ?:email|a\\_b%|\\',
+    ])
+  })
+
+  test('mssql also escapes character classes', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter({}, { dialect: 'mssql' })
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [{ field: 'name', value: '[a]', operator: 'ends_with' }],
+    })
+    assert.deepEqual(calls, ['whereRaw:?? like ? escape ?:name|%\\[a]|\\'])
+  })
+
+  test('caseInsensitive: true folds eq, in and LIKE comparisons', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter({}, { caseInsensitive: true })
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [
+        { field: 'email', value: 'Jane@Example.com' },
+        { field: 'name', value: ['Jane', 'JOHN'], operator: 'in' },
+        { field: 'name', value: 'Ja%', operator: 'starts_with' },
+      ],
+    })
+    assert.deepEqual(calls, [
+      'whereRaw:lower(??) = ?:email|jane@example.com',
+      'whereRaw:lower(??) in (?, ?):name|jane|john',
+      'whereRaw:?? ilike ? escape ?:name|ja\\%%|\\',
+    ])
+  })
+
+  test('per-field caseInsensitive only affects the listed fields', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter({}, { caseInsensitive: { user: ['email'] } })
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [
+        { field: 'email', value: 'Jane@Example.com' },
+        { field: 'name', value: 'Jane' },
+      ],
+    })
+    assert.deepEqual(calls, ['whereRaw:lower(??) = ?:email|jane@example.com', 'where:name:=:Jane'])
+  })
+
+  test('non-postgres dialects lower the column for LIKE matching', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter({}, { dialect: 'mysql', caseInsensitive: true })
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [{ field: 'name', value: 'JA', operator: 'contains' }],
+    })
+    assert.deepEqual(calls, ['whereRaw:lower(??) like ? escape ?:name|%ja%|\\'])
+  })
+
+  test('honours insensitive mode set by better-auth', async ({ assert }) => {
+    const { adapter, calls } = makeAdapter()
+    const dbAdapter = adapter({ baseURL: 'http://localhost' } as any)
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [{ field: 'email', value: 'Jane@Example.com', mode: 'insensitive' }],
+    })
+    assert.deepEqual(calls, ['whereRaw:lower(??) = ?:email|jane@example.com'])
+  })
 })
 
 test.group('lucidAdapter — count', () => {
@@ -165,6 +268,7 @@ test.group('lucidAdapter — count', () => {
       from: () => mockQuery,
       table: () => ({}),
       transaction: async (cb: any) => cb({}),
+      connection: postgresConnection,
     } as any
 
     const dbAdapter = lucidAdapter(mockDb)({ baseURL: 'http://localhost' } as any)
@@ -181,21 +285,2672 @@ test.group('lucidAdapter — count', () => {
       from: () => mockQuery,
       table: () => ({}),
       transaction: async (cb: any) => cb({}),
+      connection: postgresConnection,
     } as any
 
     const dbAdapter = lucidAdapter(mockDb)({ baseURL: 'http://localhost' } as any)
     const result = await dbAdapter.count({ model: 'user' })
     assert.equal(result, 0)
   })
-})
+})
+
+test.group('lucidAdapter — delete', () => {
+  test('delete resolves without error', async ({ assert }) => {
+    const db = createMockDb() as any
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+    await assert.doesNotReject(() =>
+      dbAdapter.delete({ model: 'session', where: [{ field: 'id', value: 'abc' }] })
+    )
+  })
+})
+
+test.group('lucidAdapter — transaction', () => {
+  /**
+   * Builds a mock db backed by an in-memory table store. `transaction()`
+   * stages inserts on a separate client and only commits them to the store
+   * when the callback resolves — mirroring Lucid's managed transactions.
+   * Inserts into `failOn` tables throw, simulating a constraint violation.
+   */
+  function makeTransactionalDb(failOn: string[] = []) {
+    const store: Record<string, any[]> = {}
+    const clients: string[] = []
+
+    function makeClient(name: string, staged: Record<string, any[]>) {
+      return {
+        table: (tableName: string) => ({
+          insert: (data: any) => ({
+            returning: async () => {
+              clients.push(`${name}:${tableName}`)
+              if (failOn.includes(tableName)) {
+                throw new Error(`insert into "${tableName}" violates foreign key constraint`)
+              }
+              staged[tableName] = [...(staged[tableName] ?? []), data]
+              return [data]
+            },
+          }),
+        }),
+        from: () => ({}),
+      }
+    }
+
+    const db = {
+      ...makeClient('db', store),
+      connection: postgresConnection,
+      transaction: async (cb: any) => {
+        const staged: Record<string, any[]> = {}
+        const result = await cb(makeClient('trx', staged))
+        for (const [tableName, rows] of Object.entries(staged)) {
+          store[tableName] = [...(store[tableName] ?? []), ...rows]
+        }
+        return result
+      },
+    } as any
+
+    return { db, store, clients }
+  }
+
+  const USER_DATA = {
+    name: 'Jane',
+    email: 'jane@example.com',
+    emailVerified: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  test('runs CRUD operations inside the callback on the transaction client', async ({ assert }) => {
+    const { db, store, clients } = makeTransactionalDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.transaction(async (trx) => {
+      const user = await trx.create({ model: 'user', data: USER_DATA })
+      await trx.create({
+        model: 'account',
+        data: { accountId: 'a1', providerId: 'credential', userId: user.id },
+      })
+    })
+
+    assert.deepEqual(clients, ['trx:user', 'trx:account'])
+    assert.lengthOf(store.user, 1)
+    assert.lengthOf(store.account, 1)
+  })
+
+  test('a failed second insert leaves no orphan user row', async ({ assert }) => {
+    const { db, store } = makeTransactionalDb(['account'])
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await assert.rejects(
+      () =>
+        dbAdapter.transaction(async (trx) => {
+          const user = await trx.create({ model: 'user', data: USER_DATA })
+          await trx.create({
+            model: 'account',
+            data: { accountId: 'a1', providerId: 'credential', userId: user.id },
+          })
+        }),
+      /violates foreign key constraint/
+    )
+
+    assert.isUndefined(store.user)
+    assert.isUndefined(store.account)
+  })
+
+  test('operations outside a transaction still use the db service', async ({ assert }) => {
+    const { db, store, clients } = makeTransactionalDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.create({ model: 'user', data: USER_DATA })
+
+    assert.deepEqual(clients, ['db:user'])
+    assert.lengthOf(store.user, 1)
+  })
+})
+
+test.group('lucidAdapter — dialects', () => {
+  /**
+   * Builds a mock db for a dialect without RETURNING support. Records the
+   * query builder calls so tests can assert rows are re-selected.
+   */
+  function makeNoReturningDb(dialectName: string, row: Record<string, any> | null) {
+    const calls: string[] = []
+
+    function makeQuery(): any {
+      const q: any = {
+        where: (...args: any[]) => {
+          calls.push(`where:${args.join(':')}`)
+          return q
+        },
+        clone: () => {
+          calls.push('clone')
+          return makeQuery()
+        },
+        select: () => q,
+        first: async () => row,
+        update: async () => {
+          calls.push('update')
+          return 1
+        },
+        returning: () => {
+          throw new Error('RETURNING is not supported')
+        },
+      }
+      return q
+    }
+
+    const db = {
+      connection: () => ({ dialect: { name: dialectName } }),
+      from: () => makeQuery(),
+      table: () => ({
+        insert: async () => {
+          calls.push('insert')
+          return [7]
+        },
+      }),
+      transaction: async (cb: any) => cb({}),
+    } as any
+
+    return { db, calls }
+  }
+
+  test('detects the dialect from the Lucid connection', ({ assert }) => {
+    const { db } = makeNoReturningDb('better-sqlite3', null)
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    assert.isFalse(dbAdapter.options!.adapterConfig.supportsBooleans)
+    assert.isFalse(dbAdapter.options!.adapterConfig.supportsJSON)
+    assert.isFalse(dbAdapter.options!.adapterConfig.supportsDates)
+  })
+
+  test('explicit dialect config overrides detection', ({ assert }) => {
+    const db = createMockDb() as any
+    const dbAdapter = lucidAdapter(db, { dialect: 'mysql' })({ baseURL: 'http://localhost' } as any)
+
+    assert.isFalse(dbAdapter.options!.adapterConfig.supportsBooleans)
+    assert.isTrue(dbAdapter.options!.adapterConfig.supportsDates)
+  })
+
+  test('postgres keeps native JSON and boolean support', ({ assert }) => {
+    const db = createMockDb() as any
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    assert.isTrue(dbAdapter.options!.adapterConfig.supportsJSON)
+    assert.isTrue(dbAdapter.options!.adapterConfig.supportsBooleans)
+  })
+
+  test('throws for dialects the adapter does not support', ({ assert }) => {
+    const { db } = makeNoReturningDb('oracledb', null)
+    assert.throws(
+      () => lucidAdapter(db)({ baseURL: 'http://localhost' } as any),
+      /Unsupported database dialect "oracledb"/
+    )
+  })
+
+  test('mysql create re-selects the inserted row by id', async ({ assert }) => {
+    const { db, calls } = makeNoReturningDb('mysql', {
+      id: 'u1',
+      name: 'Jane',
+      email: 'jane@example.com',
+    })
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const user = await dbAdapter.create({
+      model: 'user',
+      data: {
+        name: 'Jane',
+        email: 'jane@example.com',
+        emailVerified: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    })
+
+    assert.equal(calls[0], 'insert')
+    assert.isTrue(calls[1].startsWith('where:id:'))
+    assert.equal(user.email, 'jane@example.com')
+  })
+
+  test('mysql update captures the target id before updating', async ({ assert }) => {
+    const { db, calls } = makeNoReturningDb('mysql', { id: 'u1', email: 'new@example.com' })
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const user = await dbAdapter.update({
+      model: 'user',
+      where: [{ field: 'email', value: 'old@example.com' }],
+      update: { email: 'new@example.com' },
+    })
+
+    assert.deepEqual(calls, ['where:email:=:old@example.com', 'clone', 'update', 'where:id:u1'])
+    assert.equal((user as any).email, 'new@example.com')
+  })
+
+  test('mysql update returns null when no row matches', async ({ assert }) => {
+    const { db, calls } = makeNoReturningDb('mysql', null)
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const user = await dbAdapter.update({
+      model: 'user',
+      where: [{ field: 'email', value: 'missing@example.com' }],
+      update: { email: 'new@example.com' },
+    })
+
+    assert.isNull(user)
+    assert.notInclude(calls, 'update')
+  })
+})
+
+test.group('lucidAdapter — named connection', () => {
+  /**
+   * Builds a mock db whose default client and `connection(name)` clients
+   * record which connection every query and transaction went through.
+   */
+  function makeMultiConnectionDb() {
+    const calls: string[] = []
+
+    function makeClient(name: string): any {
+      const query: any = {
+        where: () => query,
+        whereIn: () => query,
+        select: () => query,
+        first: async () => null,
+        then: (fn: any) => Promise.resolve([]).then(fn),
+      }
+      return {
+        dialect: { name: 'postgres' },
+        from: (table: string) => {
+          calls.push(`${name}:from:${table}`)
+          return query
+        },
+        table: (table: string) => ({
+          insert: (data: any) => ({
+            returning: async () => {
+              calls.push(`${name}:insert:${table}`)
+              return [data]
+            },
+          }),
+        }),
+        transaction: async (cb: any) => {
+          calls.push(`${name}:transaction`)
+          return cb(makeClient(`${name}-trx`))
+        },
+      }
+    }
+
+    const db = {
+      ...makeClient('default'),
+      connection: (name?: string) => makeClient(name ?? 'default'),
+    } as any
+
+    return { db, calls }
+  }
+
+  test('routes CRUD through the configured connection', async ({ assert }) => {
+    const { db, calls } = makeMultiConnectionDb()
+    const dbAdapter = lucidAdapter(db, { connection: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(calls, ['auth:from:session'])
+  })
+
+  test('opens transactions on the configured connection', async ({ assert }) => {
+    const { db, calls } = makeMultiConnectionDb()
+    const dbAdapter = lucidAdapter(db, { connection: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.transaction(async (trx) => {
+      await trx.create({
+        model: 'user',
+        data: {
+          name: 'Jane',
+          email: 'jane@example.com',
+          emailVerified: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      })
+    })
+
+    assert.deepEqual(calls, ['auth:transaction', 'auth-trx:insert:user'])
+  })
+
+  test('uses the default connection when none is configured', async ({ assert }) => {
+    const { db, calls } = makeMultiConnectionDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(calls, ['default:from:session'])
+  })
+
+  test('createSchema introspects the configured connection', async ({ assert }) => {
+    const { db, calls } = makeMultiConnectionDb()
+    const dbAdapter = lucidAdapter(db, { connection: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const result = await dbAdapter.createSchema!({} as any)
+
+    assert.deepEqual(calls, ['auth:from:information_schema.tables'])
+    assert.include(result.code, "connection = 'auth'")
+  })
+
+  test('generateMigration introspects and tags another connection', async ({ assert }) => {
+    const { db, calls } = makeMultiConnectionDb()
+    const dbAdapter = lucidAdapter(db, { connection: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const { code } = await (dbAdapter.options as any).generateMigration({ connection: 'legacy' })
+
+    assert.deepEqual(calls, ['legacy:from:information_schema.tables'])
+    assert.include(code, "connection = 'legacy'")
+  })
+})
+
+test.group('lucidAdapter — read replicas', () => {
+  /**
+   * Builds a mock db whose `connection(name, { mode })` clients record
+   * whether each query went to the primary, a replica or a transaction.
+   */
+  function makeReplicaDb() {
+    const calls: string[] = []
+
+    function makeClient(name: string): any {
+      const query: any = {
+        where: () => query,
+        orderBy: () => query,
+        limit: () => query,
+        first: async () => null,
+        count: async () => [{ total: '0' }],
+        update: () => ({ returning: async () => [{ id: 's1' }] }),
+        then: (fn: any) => Promise.resolve([]).then(fn),
+      }
+      return {
+        dialect: { name: 'postgres' },
+        from: (table: string) => {
+          calls.push(`${name}:${table}`)
+          return query
+        },
+        table: (table: string) => ({
+          insert: (data: any) => ({
+            returning: async () => {
+              calls.push(`${name}:${table}`)
+              return [data]
+            },
+          }),
+        }),
+        transaction: async (cb: any) => cb(makeClient('trx')),
+      }
+    }
+
+    const db = {
+      ...makeClient('default'),
+      connection: (_name?: string, options?: { mode?: string }) =>
+        makeClient(options?.mode === 'read' ? 'replica' : 'primary'),
+    } as any
+
+    return { db, calls }
+  }
+
+  const SESSION_DATA = {
+    userId: 'u1',
+    token: 't1',
+    expiresAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  test('sends reads to the replica and writes to the primary', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db, { readReplicas: {} })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    await dbAdapter.count({ model: 'session' })
+    await dbAdapter.create({ model: 'session', data: SESSION_DATA })
+
+    assert.deepEqual(calls, ['replica:user', 'replica:session', 'primary:session'])
+  })
+
+  test('reads a recently written model from the primary', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db, { readReplicas: {} })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.create({ model: 'session', data: SESSION_DATA })
+    await dbAdapter.findMany({ model: 'session' })
+    await dbAdapter.findMany({ model: 'user' })
+
+    assert.deepEqual(calls, ['primary:session', 'primary:session', 'replica:user'])
+  })
+
+  test('returns to the replica once the sticky window has passed', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db, { readReplicas: { stickyWindow: 0 } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.create({ model: 'session', data: SESSION_DATA })
+    await dbAdapter.findMany({ model: 'session' })
+
+    assert.deepEqual(calls, ['primary:session', 'replica:session'])
+  })
+
+  test('primarySessionLookups forces session-by-token reads to the primary', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db, { readReplicas: { primarySessionLookups: true } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'userId', value: 'u1' }] })
+
+    assert.deepEqual(calls, ['primary:session', 'replica:session'])
+  })
+
+  test('reads inside a transaction stay on the transaction client', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db, { readReplicas: {} })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.transaction(async (trx) => {
+      await trx.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+      await trx.create({ model: 'session', data: SESSION_DATA })
+    })
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(calls, ['trx:user', 'trx:session', 'primary:session'])
+  })
+
+  test('leaves routing to Lucid when readReplicas is not configured', async ({ assert }) => {
+    const { db, calls } = makeReplicaDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+
+    assert.deepEqual(calls, ['default:user'])
+  })
+})
+
+test.group('lucidAdapter — database schema', () => {
+  test('qualifies CRUD table names with the configured schema', async ({ assert }) => {
+    const tables: string[] = []
+    const db = createMockDb({
+      from: (table: string) => {
+        tables.push(table)
+        return createMockDb().from()
+      },
+    }) as any
+    const dbAdapter = lucidAdapter(db, { schema: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.count({ model: 'user' })
+
+    assert.deepEqual(tables, ['auth.session', 'auth.user'])
+  })
+})
+
+test.group('lucidAdapter — table naming', () => {
+  function makeRecordingDb() {
+    const tables: string[] = []
+    const db = createMockDb({
+      from: (table: string) => {
+        tables.push(table)
+        return createMockDb().from()
+      },
+    }) as any
+    return { db, tables }
+  }
+
+  test('applies tablePrefix to every CRUD table', async ({ assert }) => {
+    const { db, tables } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, { tablePrefix: 'auth_' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.count({ model: 'user' })
+
+    assert.deepEqual(tables, ['auth_session', 'auth_user'])
+  })
+
+  test('explicit tables mapping wins over tablePrefix', async ({ assert }) => {
+    const { db, tables } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, {
+      tablePrefix: 'auth_',
+      tables: { user: 'auth_users' },
+      schema: 'auth',
+    })({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.count({ model: 'user' })
+    await dbAdapter.count({ model: 'account' })
+
+    assert.deepEqual(tables, ['auth.auth_users', 'auth.auth_account'])
+  })
+})
+
+test.group('lucidAdapter — naming strategy', () => {
+  function makeRecordingDb(row: Record<string, unknown>) {
+    const calls: string[] = []
+    const inserted: Record<string, unknown>[] = []
+
+    const query: any = {
+      where: (column: string) => {
+        calls.push(`where:${column}`)
+        return query
+      },
+      orderBy: (column: string, direction: string) => {
+        calls.push(`orderBy:${column}:${direction}`)
+        return query
+      },
+      limit: () => query,
+      offset: () => query,
+      first: async () => row,
+      then: (fn: any) => Promise.resolve([row]).then(fn),
+    }
+
+    const db = createMockDb({
+      from: () => query,
+      table: () => ({
+        insert: (payload: Record<string, unknown>) => {
+          inserted.push(payload)
+          return { returning: async () => [row] }
+        },
+      }),
+    }) as any
+
+    return { db, calls, inserted }
+  }
+
+  const SNAKE_ROW = {
+    id: 's1',
+    user_id: 'u1',
+    token: 't1',
+    expires_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  test('writes snake_case columns and returns camelCase fields by default', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb(SNAKE_ROW)
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const session = await dbAdapter.create({
+      model: 'session',
+      data: {
+        userId: 'u1',
+        token: 't1',
+        expiresAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    })
+
+    assert.includeMembers(Object.keys(inserted[0]), ['user_id', 'expires_at', 'created_at'])
+    assert.notProperty(inserted[0], 'userId')
+    assert.equal((session as any).userId, 'u1')
+    assert.instanceOf((session as any).expiresAt, Date)
+  })
+
+  test('maps where fields and sortBy to column names', async ({ assert }) => {
+    const { db, calls } = makeRecordingDb(SNAKE_ROW)
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const sessions = await dbAdapter.findMany({
+      model: 'session',
+      where: [{ field: 'userId', value: 'u1' }],
+      sortBy: { field: 'createdAt', direction: 'desc' },
+    })
+
+    assert.deepEqual(calls, ['where:user_id', 'orderBy:created_at:desc', 'orderBy:id:desc'])
+    assert.equal((sessions[0] as any).userId, 'u1')
+  })
+
+  test('camelCase strategy leaves field names untouched', async ({ assert }) => {
+    const { db, calls, inserted } = makeRecordingDb({ id: 's1', userId: 'u1', token: 't1' })
+    const dbAdapter = lucidAdapter(db, { namingStrategy: 'camelCase' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.create({
+      model: 'session',
+      data: { userId: 'u1', token: 't1', expiresAt: new Date() },
+    })
+    const session = await dbAdapter.findOne({
+      model: 'session',
+      where: [{ field: 'userId', value: 'u1' }],
+    })
+
+    assert.property(inserted[0], 'userId')
+    assert.deepEqual(calls, ['where:userId'])
+    assert.equal((session as any).userId, 'u1')
+  })
+
+  test('custom strategy is applied both ways', async ({ assert }) => {
+    const { db, calls } = makeRecordingDb({ id: 's1', USERID: 'u1', TOKEN: 't1' })
+    const dbAdapter = lucidAdapter(db, { namingStrategy: (field) => field.toUpperCase() })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const session = await dbAdapter.findOne({
+      model: 'session',
+      where: [{ field: 'token', value: 't1' }],
+    })
+
+    assert.deepEqual(calls, ['where:TOKEN'])
+    assert.equal((session as any).userId, 'u1')
+    assert.equal((session as any).id, 's1')
+  })
+
+  test('custom fieldNames round-trip under better-auth keys', async ({ assert }) => {
+    const { db, calls, inserted } = makeRecordingDb({
+      id: 'u1',
+      mail: 'a@example.com',
+      name: 'Ada',
+      emailVerified: false,
+    })
+    const dbAdapter = lucidAdapter(db, { namingStrategy: 'camelCase' })({
+      baseURL: 'http://localhost',
+      user: { fields: { email: 'mail' } },
+    } as any)
+
+    const created = await dbAdapter.create({
+      model: 'user',
+      data: { email: 'a@example.com', name: 'Ada', emailVerified: false },
+    })
+    const found = await dbAdapter.findOne({
+      model: 'user',
+      where: [{ field: 'email', value: 'a@example.com' }],
+    })
+
+    assert.property(inserted[0], 'mail')
+    assert.deepEqual(calls, ['where:mail'])
+    assert.equal((created as any).email, 'a@example.com')
+    assert.equal((found as any).email, 'a@example.com')
+    assert.equal((found as any).name, 'Ada')
+  })
+})
+
+test.group('lucidAdapter — native arrays', () => {
+  const OPTIONS = {
+    baseURL: 'http://localhost',
+    user: {
+      additionalFields: {
+        tags: { type: 'string[]', required: false },
+        scores: { type: 'number[]', required: false },
+      },
+    },
+  } as any
+
+  function makeRecordingDb(dialect = 'postgres') {
+    const calls: string[] = []
+    const inserted: Record<string, unknown>[] = []
+
+    const query: any = {
+      where: (column: string) => {
+        calls.push(`where:${column}`)
+        return query
+      },
+      whereRaw: (sql: string, bindings: unknown[]) => {
+        calls.push(`whereRaw:${sql}:${bindings.join('|')}`)
+        return query
+      },
+      first: async () => null,
+    }
+
+    const db = createMockDb({
+      from: () => query,
+      table: () => ({
+        insert: (payload: Record<string, unknown>) => {
+          inserted.push(payload)
+          return { returning: async () => [payload] }
+        },
+      }),
+      connection: () => ({ dialect: { name: dialect } }),
+    }) as any
+
+    return { db, calls, inserted }
+  }
+
+  test('passes arrays through to the driver', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, { nativeArrays: true })(OPTIONS)
+
+    const user = await dbAdapter.create({
+      model: 'user',
+      data: { name: 'Jane', email: 'jane@example.com', tags: ['admin', 'beta'], scores: [1, 2] },
+    })
+
+    assert.deepEqual(inserted[0].tags, ['admin', 'beta'])
+    assert.deepEqual(inserted[0].scores, [1, 2])
+    assert.deepEqual((user as any).tags, ['admin', 'beta'])
+  })
+
+  test('stores arrays as JSON strings when disabled', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db)(OPTIONS)
+
+    await dbAdapter.create({
+      model: 'user',
+      data: { name: 'Jane', email: 'jane@example.com', tags: ['admin'] },
+    })
+
+    assert.equal(inserted[0].tags, '["admin"]')
+  })
+
+  test('contains and in use array containment operators', async ({ assert }) => {
+    const { db, calls } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, { nativeArrays: true })(OPTIONS)
+
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [
+        { field: 'tags', value: 'admin', operator: 'contains' },
+        { field: 'scores', value: [1, 2], operator: 'in' },
+        { field: 'tags', value: ['banned'], operator: 'not_in' },
+      ],
+    })
+
+    assert.deepEqual(calls, [
+      'whereRaw:?? @> array[?]::text[]:tags|admin',
+      'whereRaw:?? && array[?, ?]::integer[]:scores|1|2',
+      'whereRaw:not (?? && array[?]::text[]):tags|banned',
+    ])
+  })
+
+  test('rejects nativeArrays on dialects without array columns', ({ assert }) => {
+    const { db } = makeRecordingDb('mysql')
+    assert.throws(
+      () => lucidAdapter(db, { nativeArrays: true })(OPTIONS),
+      /nativeArrays is not supported on the "mysql" dialect/
+    )
+  })
+})
+
+test.group('lucidAdapter — id strategy', () => {
+  function makeRecordingDb(dialect = 'postgres') {
+    const inserted: Record<string, unknown>[] = []
+
+    const db = createMockDb({
+      from: () => ({ where: () => ({ first: async () => ({ id: 42, ...inserted.at(-1) }) }) }),
+      table: () => ({
+        insert: (payload: Record<string, unknown>) => {
+          inserted.push(payload)
+          return Object.assign(Promise.resolve([42]), {
+            returning: async () => [{ id: payload.id ?? 42, ...payload }],
+          })
+        },
+      }),
+      connection: () => ({ dialect: { name: dialect } }),
+    }) as any
+
+    return { db, inserted }
+  }
+
+  const USER_DATA = { name: 'Jane', email: 'jane@example.com' }
+  const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+
+  test('string strategy keeps better-auth generated ids', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.create({ model: 'user', data: USER_DATA })
+
+    assert.isString(inserted[0].id)
+    assert.notMatch(inserted[0].id as string, UUID)
+  })
+
+  test('serial strategy leaves the id to the database', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb('mysql')
+    const dbAdapter = lucidAdapter(db, { idStrategy: 'serial' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const user = await dbAdapter.create({ model: 'user', data: USER_DATA })
+
+    assert.notProperty(inserted[0], 'id')
+    assert.equal(user.id, '42')
+  })
+
+  test('uuid strategy generates UUIDs where the database cannot', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb('sqlite3')
+    const dbAdapter = lucidAdapter(db, { idStrategy: 'uuid' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.create({ model: 'user', data: USER_DATA })
+
+    assert.match(inserted[0].id as string, UUID)
+  })
+
+  test('uuid strategy defers to gen_random_uuid() with generateId: uuid', async ({ assert }) => {
+    const { db, inserted } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, { idStrategy: 'uuid' })({
+      baseURL: 'http://localhost',
+      advanced: { database: { generateId: 'uuid' } },
+    } as any)
+
+    await dbAdapter.create({ model: 'user', data: USER_DATA })
+
+    assert.notProperty(inserted[0], 'id')
+  })
+})
+
+test.group('lucidAdapter — instrumentation', () => {
+  function makeInstruments() {
+    const events: any[] = []
+    const logs: any[] = []
+    const emitter = {
+      emit: async (name: string, data: any) => {
+        events.push({ name, ...data })
+      },
+    } as any
+    const logger = {
+      debug: (data: any, message: string) => logs.push({ message, ...data }),
+      error: (data: any, message: string) => logs.push({ message, ...data }),
+    } as any
+    return { emitter, logger, events, logs }
+  }
+
+  test('emits better_lucid:query for every operation', async ({ assert }) => {
+    const { emitter, events } = makeInstruments()
+    const db = createMockDb({ count: async () => [{ total: '3' }] }) as any
+    const dbAdapter = lucidAdapter(db, { emitter, tablePrefix: 'auth_' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.count({ model: 'user' })
+
+    assert.lengthOf(events, 2)
+    assert.containsSubset(events[0], {
+      name: 'better_lucid:query',
+      model: 'session',
+      operation: 'findOne',
+      table: 'auth_session',
+      rowCount: 0,
+    })
+    assert.containsSubset(events[1], { operation: 'count', table: 'auth_user', rowCount: 3 })
+    assert.isNumber(events[0].duration)
+    assert.notProperty(events[0], 'error')
+  })
+
+  test('reports failed operations with their error', async ({ assert }) => {
+    const { emitter, events } = makeInstruments()
+    const db = createMockDb({
+      delete: async () => {
+        throw new Error('connection lost')
+      },
+    }) as any
+    const dbAdapter = lucidAdapter(db, { emitter })({ baseURL: 'http://localhost' } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.deleteMany({ model: 'session', where: [{ field: 'userId', value: 'u1' }] })
+    }, /connection lost/)
+
+    assert.containsSubset(events[0], { operation: 'deleteMany', rowCount: 0 })
+    assert.equal(events[0].error.message, 'connection lost')
+  })
+
+  test('logs a failing listener instead of rejecting', async ({ assert }) => {
+    const { logger, logs } = makeInstruments()
+    const emitter = {
+      emit: async () => {
+        throw new Error('metrics down')
+      },
+    } as any
+    const dbAdapter = lucidAdapter(createMockDb() as any, { emitter, logger })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    assert.equal(await dbAdapter.count({ model: 'user' }), 0)
+    await new Promise((resolve) => setImmediate(resolve))
+
+    assert.lengthOf(logs, 1)
+    assert.equal(logs[0].message, '[better-lucid] better_lucid:query listener failed')
+    assert.equal(logs[0].err.message, 'metrics down')
+  })
+
+  test('debug logs go through the logger with sensitive values redacted', async ({ assert }) => {
+    const { logger, logs } = makeInstruments()
+    const db = createMockDb({
+      update: () => Object.assign(Promise.resolve(1), { returning: async () => [null] }),
+    }) as any
+    const dbAdapter = lucidAdapter(db, { logger, debugLogs: true, redact: ['ipAddress'] })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.update({
+      model: 'account',
+      where: [{ field: 'id', value: 'a1' }],
+      update: { password: 'hunter2', accessToken: 'at', scope: 'email' },
+    })
+    await dbAdapter.updateMany({
+      model: 'session',
+      where: [{ field: 'userId', value: 'u1' }],
+      update: { ipAddress: '10.0.0.1' },
+    })
+
+    assert.equal(logs[0].message, 'better-lucid findOne session')
+    assert.equal(logs[0].where[0].value, '[redacted]')
+    assert.containsSubset(logs[1].data, {
+      password: '[redacted]',
+      accessToken: '[redacted]',
+      scope: 'email',
+    })
+    assert.equal(logs[1].where[0].value, 'a1')
+    assert.equal(logs[2].data.ipAddress, '[redacted]')
+  })
+
+  test('does not log without debugLogs', async ({ assert }) => {
+    const { logger, logs } = makeInstruments()
+    const dbAdapter = lucidAdapter(createMockDb() as any, { logger })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.count({ model: 'user' })
+
+    assert.lengthOf(logs, 0)
+  })
+})
+
+test.group('lucidAdapter — session cache', () => {
+  const SESSION_ROW = {
+    id: 's1',
+    user_id: 'u1',
+    token: 't1',
+    expires_at: new Date('2030-01-01T00:00:00Z'),
+    created_at: new Date(),
+    updated_at: new Date(),
+  }
+
+  function makeCountingDb(row: Record<string, unknown> = SESSION_ROW) {
+    const reads: string[] = []
+
+    const query: any = {
+      where: () => query,
+      whereRaw: () => query,
+      clone: () => query,
+      select: async (column: string) => [{ [column]: row[column] }],
+      first: async () => {
+        reads.push('first')
+        return row
+      },
+      update: () => Object.assign(Promise.resolve(1), { returning: async () => [row] }),
+      delete: async () => 1,
+    }
+
+    return { db: createMockDb({ from: () => query }) as any, reads }
+  }
+
+  const findSession = (dbAdapter: any) =>
+    dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+  test('serves repeated session-by-token lookups from the cache', async ({ assert }) => {
+    const { db, reads } = makeCountingDb()
+    const dbAdapter = lucidAdapter(db, { cache: {} })({ baseURL: 'http://localhost' } as any)
+
+    const first = await findSession(dbAdapter)
+    const second = await findSession(dbAdapter)
+
+    assert.lengthOf(reads, 1)
+    assert.deepEqual(second, first)
+    assert.instanceOf((second as any).expiresAt, Date)
+  })
+
+  test('only caches lookups by session token and user id', async ({ assert }) => {
+    const { db, reads } = makeCountingDb({ id: 'u1', email: 'jane@example.com' })
+    const dbAdapter = lucidAdapter(db, { cache: {} })({ baseURL: 'http://localhost' } as any)
+
+    for (let i = 0; i < 2; i++) {
+      await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+      await dbAdapter.findOne({
+        model: 'user',
+        where: [{ field: 'email', value: 'jane@example.com' }],
+      })
+    }
+
+    assert.lengthOf(reads, 3)
+  })
+
+  test('update and deleteMany invalidate cached sessions', async ({ assert }) => {
+    const { db, reads } = makeCountingDb()
+    const dbAdapter = lucidAdapter(db, { cache: {} })({ baseURL: 'http://localhost' } as any)
+
+    await findSession(dbAdapter)
+    await dbAdapter.update({
+      model: 'session',
+      where: [{ field: 'token', value: 't1' }],
+      update: { expiresAt: new Date() },
+    })
+    await findSession(dbAdapter)
+    await dbAdapter.deleteMany({ model: 'session', where: [{ field: 'userId', value: 'u1' }] })
+    await findSession(dbAdapter)
+    await findSession(dbAdapter)
+
+    assert.lengthOf(reads, 3)
+  })
+
+  test('writes inside a transaction drop entries once it commits', async ({ assert }) => {
+    const { db, reads } = makeCountingDb()
+    const hooks: (() => Promise<void>)[] = []
+    db.transaction = async (cb: any) => {
+      const result = await cb({ from: db.from, after: (_: string, hook: any) => hooks.push(hook) })
+      for (const hook of hooks) await hook()
+      return result
+    }
+    const dbAdapter = lucidAdapter(db, { cache: {} })({ baseURL: 'http://localhost' } as any)
+
+    await findSession(dbAdapter)
+    await dbAdapter.transaction(async (trx) => {
+      await trx.delete({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+      // A lookup racing the commit still gets the committed row, from the cache.
+      await findSession(dbAdapter)
+      assert.lengthOf(reads, 1)
+    })
+    await findSession(dbAdapter)
+
+    assert.lengthOf(reads, 2)
+  })
+
+  test('revives dates from serializing stores', async ({ assert }) => {
+    const values = new Map<string, string>()
+    const store = {
+      get: async (key: string) => (values.has(key) ? JSON.parse(values.get(key)!) : undefined),
+      set: async (key: string, value: unknown) => {
+        values.set(key, JSON.stringify(value))
+      },
+      delete: async () => {},
+    }
+    const { db } = makeCountingDb()
+    const dbAdapter = lucidAdapter(db, { cache: { store } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await findSession(dbAdapter)
+    const cached = await findSession(dbAdapter)
+
+    assert.deepEqual(values.keys().next().value, 'better-lucid:session:t1')
+    assert.instanceOf((cached as any).expiresAt, Date)
+    assert.equal((cached as any).expiresAt.toISOString(), '2030-01-01T00:00:00.000Z')
+  })
+})
+
+test.group('lucidAdapter — Lucid models', () => {
+  /**
+   * Builds a stand-in Lucid model class recording the model API calls the
+   * adapter makes and mimicking a `beforeSave` hook that normalises emails.
+   */
+  function makeUserModel() {
+    const calls: string[] = []
+
+    class FakeUser {
+      static $columnsDefinitions = new Map()
+      $attributes: Record<string, unknown> = {}
+
+      static async create(values: Record<string, unknown>, options: { client: any }) {
+        calls.push(`create:${options.client.connectionName}`)
+        return new FakeUser().merge(values).save()
+      }
+
+      static query(options: { client: any }) {
+        calls.push(`query:${options.client.connectionName}`)
+        const query: any = {
+          where: (column: string, _op: string, value: unknown) => {
+            calls.push(`where:${column}:${value}`)
+            return query
+          },
+          first: async () => new FakeUser().merge({ id: 'u1', email: 'old@example.com' }),
+        }
+        return query
+      }
+
+      merge(values: Record<string, unknown>) {
+        Object.assign(this.$attributes, values)
+        return this
+      }
+
+      async save() {
+        calls.push('save')
+        this.$attributes.email = String(this.$attributes.email).toLowerCase()
+        return this
+      }
+
+      async delete() {
+        calls.push(`delete:${this.$attributes.id}`)
+      }
+    }
+
+    return { models: { user: async () => ({ default: FakeUser as any }) }, calls }
+  }
+
+  function makeDb() {
+    const rawCalls: string[] = []
+    const db = createMockDb({
+      table: (table: string) => {
+        rawCalls.push(`insert:${table}`)
+        return { insert: () => ({ returning: async () => [{ id: 's1' }] }) }
+      },
+      connection: (name?: string) => ({
+        connectionName: name ?? 'primary',
+        dialect: { name: 'postgres' },
+      }),
+    }) as any
+    return { db, rawCalls }
+  }
+
+  test('creates mapped models through Model.create so hooks run', async ({ assert }) => {
+    const { models, calls } = makeUserModel()
+    const { db, rawCalls } = makeDb()
+    const dbAdapter = lucidAdapter(db, { models })({ baseURL: 'http://localhost' } as any)
+
+    const user = await dbAdapter.create({
+      model: 'user',
+      data: { name: 'Jane', email: 'Jane@Example.com' },
+    })
+
+    assert.deepEqual(calls, ['create:primary', 'save'])
+    assert.deepEqual(rawCalls, [])
+    assert.equal((user as any).email, 'jane@example.com')
+  })
+
+  test('updates through merge().save() on the matched instance', async ({ assert }) => {
+    const { models, calls } = makeUserModel()
+    const { db } = makeDb()
+    const dbAdapter = lucidAdapter(db, { models, connection: 'auth' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const user = await dbAdapter.update({
+      model: 'user',
+      where: [{ field: 'id', value: 'u1' }],
+      update: { email: 'NEW@example.com' },
+    })
+
+    assert.deepEqual(calls, ['query:auth', 'where:id:u1', 'save'])
+    assert.equal((user as any).email, 'new@example.com')
+  })
+
+  test('deletes through model.delete()', async ({ assert }) => {
+    const { models, calls } = makeUserModel()
+    const { db } = makeDb()
+    const dbAdapter = lucidAdapter(db, { models })({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.delete({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+
+    assert.deepEqual(calls, ['query:primary', 'where:id:u1', 'delete:u1'])
+  })
+
+  test('retries a model import that failed', async ({ assert }) => {
+    const { models, calls } = makeUserModel()
+    const { db } = makeDb()
+    let imports = 0
+    const dbAdapter = lucidAdapter(db, {
+      models: {
+        user: async () => {
+          if (imports++ === 0) throw new Error('Cannot find module')
+          return models.user()
+        },
+      },
+    })({ baseURL: 'http://localhost' } as any)
+    const remove = () => dbAdapter.delete({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+
+    await assert.rejects(remove, /Cannot find module/)
+    await remove()
+
+    assert.equal(imports, 2)
+    assert.deepEqual(calls, ['query:primary', 'where:id:u1', 'delete:u1'])
+  })
+
+  test('converts dates for @column.dateTime properties both ways', async ({ assert }) => {
+    const writes: Record<string, unknown>[] = []
+    const client: any = {
+      connectionName: 'primary',
+      dialect: { name: 'postgres', dateTimeFormat: "yyyy-MM-dd'T'HH:mm:ss.SSSZZ" },
+    }
+
+    class User extends orm.BaseModel {
+      @orm.column({ isPrimary: true })
+      declare id: string
+
+      @orm.column()
+      declare name: string
+
+      @orm.column()
+      declare email: string
+
+      @orm.column()
+      declare emailVerified: boolean
+
+      @orm.column()
+      declare image: string | null
+
+      @orm.column.dateTime({ autoCreate: true })
+      declare createdAt: DateTime
+
+      @orm.column.dateTime({ autoCreate: true, autoUpdate: true })
+      declare updatedAt: DateTime
+    }
+    User.$adapter = {
+      insert: async (_: unknown, attributes: Record<string, unknown>) => writes.push(attributes),
+      update: async (_: unknown, attributes: Record<string, unknown>) => writes.push(attributes),
+      modelClient: () => client,
+      modelConstructorClient: () => client,
+      query: () => {
+        const query: any = {
+          client,
+          where: () => query,
+          first: async () =>
+            User.$createFromAdapterResult(
+              { id: 'u1', email: 'jane@example.com', created_at: new Date(0) },
+              {},
+              { client }
+            ),
+        }
+        return query
+      },
+    } as any
+
+    const db = createMockDb({ connection: () => client }) as any
+    const dbAdapter = lucidAdapter(db, { models: { user: async () => ({ default: User }) } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const createdAt = new Date('2026-01-01T00:00:00.000Z')
+    const created: any = await dbAdapter.create({
+      model: 'user',
+      data: { name: 'Jane', email: 'jane@example.com', createdAt, updatedAt: createdAt },
+    })
+    const updated: any = await dbAdapter.update({
+      model: 'user',
+      where: [{ field: 'id', value: 'u1' }],
+      update: { name: 'Janet' },
+    })
+
+    assert.equal(writes[0].created_at, '2026-01-01T00:00:00.000+00:00')
+    assert.instanceOf(created.createdAt, Date)
+    assert.equal(created.createdAt.toISOString(), '2026-01-01T00:00:00.000Z')
+    // better-auth stamps updatedAt with a Date on every update.
+    assert.isString(writes[1].updated_at)
+    assert.equal(updated.createdAt.toISOString(), '1970-01-01T00:00:00.000Z')
+    assert.instanceOf(updated.updatedAt, Date)
+  })
+
+  test('unmapped models keep the query builder path', async ({ assert }) => {
+    const { models, calls } = makeUserModel()
+    const { db, rawCalls } = makeDb()
+    const dbAdapter = lucidAdapter(db, { models })({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.create({
+      model: 'session',
+      data: { userId: 'u1', token: 't1', expiresAt: new Date() },
+    })
+
+    assert.deepEqual(calls, [])
+    assert.deepEqual(rawCalls, ['insert:session'])
+  })
+})
+
+test.group('lucidAdapter — field encryption', () => {
+  const current = new Encryption({ secret: 'current-secret-current-secret-32' })
+  const previous = new Encryption({ secret: 'previous-secret-previous-secret!' })
+
+  const ENCRYPTED: LucidAdapterConfig = {
+    encryptFields: { account: ['accessToken', 'refreshToken', 'idToken'] },
+    encryption: [current, previous],
+  }
+
+  test('encrypts configured fields on create and decrypts them in the result', async ({
+    assert,
+  }) => {
+    const inserted: Record<string, unknown>[] = []
+    const db = createMockDb({
+      table: () => ({
+        insert: (payload: Record<string, unknown>) => {
+          inserted.push(payload)
+          return { returning: async () => [payload] }
+        },
+      }),
+    }) as any
+    const dbAdapter = lucidAdapter(db, ENCRYPTED)({ baseURL: 'http://localhost' } as any)
+
+    const account: any = await dbAdapter.create({
+      model: 'account',
+      data: { accountId: 'gh-1', providerId: 'github', userId: 'u1', accessToken: 'gho_secret' },
+    })
+
+    assert.notEqual(inserted[0].access_token, 'gho_secret')
+    assert.equal(current.decrypt(inserted[0].access_token), 'gho_secret')
+    assert.equal(inserted[0].provider_id, 'github')
+    assert.equal(account.accessToken, 'gho_secret')
+  })
+
+  test('decrypts with previous keys and passes legacy plaintext through', async ({ assert }) => {
+    const row = {
+      id: 'a1',
+      account_id: 'gh-1',
+      provider_id: 'github',
+      user_id: 'u1',
+      access_token: previous.encrypt('gho_old_key'),
+      refresh_token: 'ghr_plaintext',
+      id_token: null,
+    }
+    const db = createMockDb({ first: async () => row }) as any
+    const dbAdapter = lucidAdapter(db, ENCRYPTED)({ baseURL: 'http://localhost' } as any)
+
+    const account: any = await dbAdapter.findOne({
+      model: 'account',
+      where: [{ field: 'id', value: 'a1' }],
+    })
+
+    assert.equal(account.accessToken, 'gho_old_key')
+    assert.equal(account.refreshToken, 'ghr_plaintext')
+    assert.isNull(account.idToken)
+  })
+
+  test('throws when encryptFields is set without an encryption service', ({ assert }) => {
+    const db = createMockDb() as any
+    assert.throws(
+      () =>
+        lucidAdapter(db, { encryptFields: { account: ['accessToken'] } })({
+          baseURL: 'http://localhost',
+        } as any),
+      /encryptFields requires the encryption option/
+    )
+  })
+
+  /** Mock db serving `rows` to reencryptFields and recording its selects and updates. */
+  function makeReencryptDb(rows: Record<string, unknown>[]) {
+    const selected: string[][] = []
+    const updates: Record<string, unknown>[] = []
+    const query: any = {
+      select: (...columns: string[]) => {
+        selected.push(columns)
+        return query
+      },
+      orderBy: () => query,
+      limit: () => query,
+      where: () => query,
+      update: async (changes: Record<string, unknown>) => {
+        updates.push(changes)
+        return 1
+      },
+      then: (fn: any) => Promise.resolve(rows).then(fn),
+    }
+    return { db: createMockDb({ from: () => query }) as any, selected, updates }
+  }
+
+  test('reencryptFields rewrites stored values with the current key', async ({ assert }) => {
+    const { db, selected, updates } = makeReencryptDb([
+      {
+        id: 'a1',
+        access_token: previous.encrypt('gho_old_key'),
+        refresh_token: null,
+        id_token: 'plain-id-token',
+      },
+    ])
+    const dbAdapter = lucidAdapter(db, ENCRYPTED)({ baseURL: 'http://localhost' } as any)
+
+    const result = await (dbAdapter.options as any).reencryptFields()
+
+    assert.deepEqual(result, { rewritten: 1, undecryptable: 0 })
+    assert.deepEqual(selected[0], ['id', 'access_token', 'refresh_token', 'id_token'])
+    assert.lengthOf(updates, 1)
+    assert.notProperty(updates[0], 'refresh_token')
+    assert.equal(current.decrypt(updates[0].access_token), 'gho_old_key')
+    assert.equal(current.decrypt(updates[0].id_token), 'plain-id-token')
+  })
+
+  test('reencryptFields skips ciphertext no configured key decrypts', async ({ assert }) => {
+    const dropped = new Encryption({ secret: 'dropped-secret-dropped-secret-32' })
+    const { db, updates } = makeReencryptDb([
+      {
+        id: 'a1',
+        access_token: dropped.encrypt('gho_lost_key'),
+        refresh_token: 'ghr_plaintext',
+        id_token: null,
+      },
+    ])
+    const dbAdapter = lucidAdapter(db, ENCRYPTED)({ baseURL: 'http://localhost' } as any)
+
+    const result = await (dbAdapter.options as any).reencryptFields()
+
+    assert.deepEqual(result, { rewritten: 1, undecryptable: 1 })
+    assert.notProperty(updates[0], 'access_token')
+    assert.equal(current.decrypt(updates[0].refresh_token), 'ghr_plaintext')
+  })
+})
+
+test.group('lucidAdapter — soft delete', () => {
+  /**
+   * Mock db recording the filters, updates and deletes the adapter issues.
+   * Grouped where callbacks are run against the same recorder.
+   */
+  function makeRecordingDb() {
+    const calls: string[] = []
+    const updates: Record<string, unknown>[] = []
+
+    const query: any = {
+      where: (field: any, ...args: any[]) => {
+        if (typeof field === 'function') {
+          calls.push('group')
+          field(query)
+        } else {
+          calls.push(`where:${field}:${args.join(':')}`)
+        }
+        return query
+      },
+      orWhere: (field: string) => {
+        calls.push(`orWhere:${field}`)
+        return query
+      },
+      whereNull: (field: string) => {
+        calls.push(`whereNull:${field}`)
+        return query
+      },
+      orderBy: () => query,
+      limit: () => query,
+      offset: () => query,
+      first: async () => ({ id: 'u1' }),
+      count: async () => [{ total: '1' }],
+      update: async (changes: Record<string, unknown>) => {
+        updates.push(changes)
+        return 2
+      },
+      delete: async () => {
+        calls.push('delete')
+        return 3
+      },
+      then: (fn: any) => Promise.resolve([]).then(fn),
+    }
+
+    return { db: createMockDb({ from: () => query }) as any, calls, updates }
+  }
+
+  const SOFT: LucidAdapterConfig = { softDelete: ['user', 'session'] }
+
+  test('delete and deleteMany set deleted_at instead of deleting', async ({ assert }) => {
+    const { db, calls, updates } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, SOFT)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.delete({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    const deleted = await dbAdapter.deleteMany({
+      model: 'session',
+      where: [{ field: 'userId', value: 'u1' }],
+    })
+
+    assert.notInclude(calls, 'delete')
+    assert.equal(deleted, 2)
+    assert.lengthOf(updates, 2)
+    assert.instanceOf(updates[0].deleted_at, Date)
+    assert.includeMembers(calls, ['whereNull:deleted_at', 'where:id:=:u1'])
+  })
+
+  test('reads skip soft-deleted rows', async ({ assert }) => {
+    const { db, calls } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, SOFT)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    await dbAdapter.findMany({ model: 'session' })
+    await dbAdapter.count({ model: 'user' })
+
+    assert.lengthOf(
+      calls.filter((call) => call === 'whereNull:deleted_at'),
+      3
+    )
+  })
+
+  test('groups OR conditions so they cannot bypass the filter', async ({ assert }) => {
+    const { db, calls } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, SOFT)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findMany({
+      model: 'user',
+      where: [
+        { field: 'email', value: 'a@example.com' },
+        { field: 'email', value: 'b@example.com', connector: 'OR' },
+      ],
+    })
+
+    assert.deepEqual(calls, [
+      'whereNull:deleted_at',
+      'group',
+      'where:email:=:a@example.com',
+      'orWhere:email',
+    ])
+  })
+
+  test('other models are still hard-deleted and unfiltered', async ({ assert }) => {
+    const { db, calls, updates } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, SOFT)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.delete({ model: 'verification', where: [{ field: 'id', value: 'v1' }] })
+
+    assert.deepEqual(calls, ['where:id:=:v1', 'delete'])
+    assert.lengthOf(updates, 0)
+  })
+
+  test('purgeSoftDeleted removes rows deleted before the cutoff, children first', async ({
+    assert,
+  }) => {
+    const { db, calls } = makeRecordingDb()
+    const dbAdapter = lucidAdapter(db, { ...SOFT, dialect: 'sqlite' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const purged = await (dbAdapter.options as any).purgeSoftDeleted(
+      new Date('2026-01-01T00:00:00.000Z')
+    )
+
+    assert.equal(purged, 6)
+    assert.deepEqual(calls, [
+      'where:deleted_at:<:2026-01-01T00:00:00.000Z',
+      'delete',
+      'where:deleted_at:<:2026-01-01T00:00:00.000Z',
+      'delete',
+    ])
+  })
+})
+
+test.group('lucidAdapter — audit log', () => {
+  /**
+   * Mock db whose writes only succeed inside `transaction`. Records the
+   * inserts per table and how many transactions were opened.
+   */
+  function makeAuditDb(row: Record<string, unknown> = { id: 'u1', email: 'jane@example.com' }) {
+    const inserts: { table: string; payload: Record<string, any> }[] = []
+    let transactions = 0
+
+    const query: any = {
+      where: () => query,
+      clone: () => query,
+      select: async () => [{ id: 'u1' }, { id: 'u2' }],
+      first: async () => row,
+      update: () => Object.assign(Promise.resolve(2), { returning: async () => [row] }),
+      delete: async () => 2,
+    }
+    const trx = {
+      from: () => query,
+      table: (table: string) => ({
+        insert: (payload: Record<string, any>) => {
+          inserts.push({ table, payload })
+          return Object.assign(Promise.resolve([]), { returning: async () => [payload] })
+        },
+      }),
+    }
+    const db = createMockDb({
+      from: () => {
+        throw new Error('write outside the transaction')
+      },
+      transaction: async (cb: any) => {
+        transactions++
+        return cb(trx)
+      },
+    }) as any
+
+    return { db, inserts, transactions: () => transactions }
+  }
+
+  test('records a create in the same transaction as the insert', async ({ assert }) => {
+    const { db, inserts, transactions } = makeAuditDb()
+    const dbAdapter = lucidAdapter(db, { audit: true })({ baseURL: 'http://localhost' } as any)
+
+    const user: any = await dbAdapter.create({
+      model: 'user',
+      data: { name: 'Jane', email: 'jane@example.com' },
+    })
+
+    assert.equal(transactions(), 1)
+    assert.deepEqual(
+      inserts.map(({ table }) => table),
+      ['user', 'auth_audit_log']
+    )
+    const entry = inserts[1].payload
+    assert.equal(entry.model, 'user')
+    assert.equal(entry.operation, 'create')
+    assert.deepEqual(JSON.parse(entry.record_ids), [user.id])
+    assert.equal(JSON.parse(entry.changes).email, 'jane@example.com')
+    assert.instanceOf(entry.created_at, Date)
+  })
+
+  test('redacts secrets and records the ids a write matched', async ({ assert }) => {
+    const { db, inserts } = makeAuditDb({ id: 'a1', password: 'hash' })
+    const dbAdapter = lucidAdapter(db, { audit: { table: 'auth_log' } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.update({
+      model: 'account',
+      where: [{ field: 'id', value: 'a1' }],
+      update: { password: 'new-hash' },
+    })
+    await dbAdapter.deleteMany({ model: 'session', where: [{ field: 'userId', value: 'u1' }] })
+
+    assert.deepEqual(
+      inserts.map(({ table }) => table),
+      ['auth_log', 'auth_log']
+    )
+    const changes = JSON.parse(inserts[0].payload.changes)
+    assert.equal(changes.password, '[redacted]')
+    assert.property(changes, 'updatedAt')
+    assert.equal(inserts[1].payload.operation, 'deleteMany')
+    assert.deepEqual(JSON.parse(inserts[1].payload.record_ids), ['u1', 'u2'])
+    assert.isNull(inserts[1].payload.changes)
+  })
+
+  test('models limits auditing and its transactions', async ({ assert }) => {
+    const { db, inserts, transactions } = makeAuditDb()
+    const dbAdapter = lucidAdapter(db, { audit: { models: ['user'] } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.deleteMany({ model: 'verification', where: [] })
+    }, /write outside the transaction/)
+    assert.equal(transactions(), 0)
+    assert.lengthOf(inserts, 0)
+  })
+})
+
+test.group('lucidAdapter — tenant scoping', () => {
+  /** Mock db recording where calls and inserted payloads. */
+  function makeTenantDb() {
+    const calls: string[] = []
+    const inserts: Record<string, unknown>[] = []
+
+    const query: any = {
+      where: (field: any, ...args: any[]) => {
+        if (typeof field === 'function') {
+          calls.push('group')
+          field(query)
+        } else {
+          calls.push(`where:${field}:${args.join(':')}`)
+        }
+        return query
+      },
+      orWhere: (field: string) => {
+        calls.push(`orWhere:${field}`)
+        return query
+      },
+      first: async () => {
+        calls.push('first')
+        return { id: 's1', token: 't1', user_id: 'u1' }
+      },
+      then: (fn: any) => Promise.resolve([]).then(fn),
+    }
+    const db = createMockDb({
+      from: () => query,
+      table: () => ({
+        insert: (payload: Record<string, unknown>) => {
+          inserts.push(payload)
+          return { returning: async () => [payload] }
+        },
+      }),
+    }) as any
+
+    return { db, calls, inserts }
+  }
+
+  test('filters where clauses and stamps creates with the current tenant', async ({ assert }) => {
+    const { db, calls, inserts } = makeTenantDb()
+    let current = 'acme'
+    const dbAdapter = lucidAdapter(db, { tenant: { resolve: () => current } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.create({ model: 'user', data: { name: 'Jane', email: 'jane@example.com' } })
+    current = 'globex'
+    await dbAdapter.findOne({
+      model: 'user',
+      where: [
+        { field: 'email', value: 'jane@example.com' },
+        { field: 'name', value: 'Jane', connector: 'OR' },
+      ],
+    })
+
+    assert.equal(inserts[0].tenant_id, 'acme')
+    assert.deepEqual(calls, [
+      'where:tenant_id:globex',
+      'group',
+      'where:email:=:jane@example.com',
+      'orWhere:name',
+      'first',
+    ])
+  })
+
+  test('throws when no tenant is resolved', async ({ assert }) => {
+    const { db, calls } = makeTenantDb()
+    const dbAdapter = lucidAdapter(db, { tenant: { resolve: () => undefined } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    }, /No tenant resolved/)
+    assert.lengthOf(calls, 0)
+  })
+
+  test('models outside tenant.models are shared', async ({ assert }) => {
+    const { db, calls } = makeTenantDb()
+    const dbAdapter = lucidAdapter(db, {
+      tenant: { column: 'org_id', resolve: () => 'acme', models: ['user'] },
+    })({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'verification', where: [{ field: 'id', value: 'v1' }] })
+
+    assert.deepEqual(calls, ['where:id:=:v1', 'first'])
+  })
+
+  test('keys cached sessions by tenant', async ({ assert }) => {
+    const { db, calls } = makeTenantDb()
+    let current = 'acme'
+    const dbAdapter = lucidAdapter(db, { tenant: { resolve: () => current }, cache: {} })({
+      baseURL: 'http://localhost',
+    } as any)
+    const findSession = () =>
+      dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    await findSession()
+    await findSession()
+    current = 'globex'
+    await findSession()
+
+    assert.lengthOf(
+      calls.filter((call) => call === 'first'),
+      2
+    )
+  })
+})
+
+test.group('lucidAdapter — row-level security', () => {
+  /** Mock db recording raw queries and queries per transaction. */
+  function makeRlsDb() {
+    const calls: string[] = []
+    let transactions = 0
+
+    const query: any = {
+      where: () => query,
+      first: async () => {
+        calls.push('first')
+        return { id: 'u1' }
+      },
+    }
+    const trx = {
+      from: () => query,
+      rawQuery: async (sql: string, bindings: unknown[]) => {
+        calls.push(`${sql} [${bindings.join(', ')}]`)
+      },
+    }
+    const db = createMockDb({
+      from: () => {
+        throw new Error('query outside the transaction')
+      },
+      transaction: async (cb: any) => {
+        transactions++
+        return cb(trx)
+      },
+    }) as any
+
+    return { db, calls, transactions: () => transactions }
+  }
+
+  const RLS: LucidAdapterConfig = {
+    rls: { settings: () => ({ 'app.tenant_id': 'acme', 'app.role': 'member', 'app.ip': null }) },
+  }
+
+  test('applies the settings in a transaction around each operation', async ({ assert }) => {
+    const { db, calls, transactions } = makeRlsDb()
+    const dbAdapter = lucidAdapter(db, RLS)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+
+    assert.equal(transactions(), 1)
+    assert.deepEqual(calls, [
+      'select set_config(?, ?, true), set_config(?, ?, true) [app.tenant_id, acme, app.role, member]',
+      'first',
+    ])
+  })
+
+  test('applies the settings once per better-auth transaction', async ({ assert }) => {
+    const { db, calls, transactions } = makeRlsDb()
+    const dbAdapter = lucidAdapter(db, RLS)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.transaction(async (trx) => {
+      await trx.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+      await trx.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    })
+
+    assert.equal(transactions(), 1)
+    assert.lengthOf(
+      calls.filter((call) => call.startsWith('select set_config')),
+      1
+    )
+  })
+
+  test('is rejected on other dialects', ({ assert }) => {
+    const db = createMockDb() as any
+    assert.throws(
+      () => lucidAdapter(db, { ...RLS, dialect: 'mysql' })({ baseURL: 'http://localhost' } as any),
+      /rls is not supported on the "mysql" dialect/
+    )
+  })
+
+  test('is rejected together with the session cache', ({ assert }) => {
+    const db = createMockDb() as any
+    assert.throws(
+      () => lucidAdapter(db, { ...RLS, cache: {} })({ baseURL: 'http://localhost' } as any),
+      /cache cannot be combined with rls/
+    )
+  })
+})
+
+test.group('lucidAdapter — keyset pagination', () => {
+  /** Mock db recording where/orderBy/limit calls, including grouped conditions. */
+  function makePagingDb(rows: Record<string, unknown>[]) {
+    const calls: string[] = []
+
+    const recorder = (prefix = ''): any => {
+      const query: any = {
+        where: (column: any, ...args: any[]) => {
+          if (typeof column === 'function') {
+            calls.push(`${prefix}where(`)
+            column(recorder(`${prefix}  `))
+            calls.push(`${prefix})`)
+          } else {
+            calls.push(`${prefix}where:${column}:${args.map(String).join(':')}`)
+          }
+          return query
+        },
+        orWhere: (column: any) => {
+          calls.push(`${prefix}orWhere(`)
+          column(recorder(`${prefix}  `))
+          calls.push(`${prefix})`)
+          return query
+        },
+        orderBy: (column: string, direction: string) => {
+          calls.push(`orderBy:${column}:${direction}`)
+          return query
+        },
+        limit: (limit: number) => {
+          calls.push(`limit:${limit}`)
+          return query
+        },
+        offset: (offset: number) => {
+          calls.push(`offset:${offset}`)
+          return query
+        },
+        then: (fn: any) => Promise.resolve(rows).then(fn),
+      }
+      return query
+    }
+
+    return { db: createMockDb({ from: () => recorder() }) as any, calls }
+  }
+
+  /** The slice of a better-auth instance `paginate` reads. */
+  const authWith = (adapter: any) => ({ $context: Promise.resolve({ adapter }) })
+
+  const ROWS = [1, 2, 3].map((n) => ({
+    id: `u${n}`,
+    name: `User ${n}`,
+    email: `u${n}@example.com`,
+    email_verified: false,
+    created_at: new Date(`2026-01-0${n}T00:00:00.000Z`),
+    updated_at: new Date(`2026-01-0${n}T00:00:00.000Z`),
+  }))
+
+  test('paginate returns a page and a cursor for the next one', async ({ assert }) => {
+    const { db, calls } = makePagingDb(ROWS)
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const page = await paginate(authWith(dbAdapter), {
+      model: 'user',
+      sortBy: { field: 'createdAt', direction: 'desc' },
+      limit: 2,
+    })
+
+    assert.deepEqual(calls, ['orderBy:created_at:desc', 'orderBy:id:desc', 'limit:3'])
+    assert.deepEqual(
+      page.rows.map((row: any) => row.id),
+      ['u1', 'u2']
+    )
+    assert.isString(page.nextCursor)
+  })
+
+  test('a cursor keeps the rows after it, with id as the tiebreaker', async ({ assert }) => {
+    const { db, calls } = makePagingDb([])
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+    const sortBy = { field: 'createdAt', direction: 'desc' } as const
+
+    const first = await paginate(authWith(dbAdapter), { model: 'user', sortBy, limit: 2 })
+    assert.isNull(first.nextCursor)
+
+    calls.length = 0
+    const cursor = paginationCursor({ id: 'u2', createdAt: ROWS[1].created_at }, sortBy)
+    await paginate(authWith(dbAdapter), { model: 'user', sortBy, limit: 2, cursor })
+
+    assert.deepEqual(calls, [
+      'where(',
+      `  where:created_at:<:${String(ROWS[1].created_at)}`,
+      '  orWhere(',
+      `    where:created_at:${String(ROWS[1].created_at)}`,
+      '    where:id:<:u2',
+      '  )',
+      ')',
+      'orderBy:created_at:desc',
+      'orderBy:id:desc',
+      'limit:3',
+    ])
+    assert.notInclude(calls.join('\n'), 'offset')
+  })
+
+  test('the cursor applies to the paginated query only', async ({ assert }) => {
+    const { db, calls } = makePagingDb([])
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await paginate(authWith(dbAdapter), {
+      model: 'user',
+      limit: 10,
+      cursor: paginationCursor({ id: 'u3' }),
+    })
+    await dbAdapter.findMany({ model: 'user', limit: 10, offset: 20 })
+
+    assert.deepEqual(calls, [
+      'where:id:>:u3',
+      'orderBy:id:asc',
+      'limit:11',
+      'limit:10',
+      'offset:20',
+    ])
+  })
+
+  test('rejects a malformed cursor with a 400', async ({ assert }) => {
+    const { db } = makePagingDb([])
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const error: any = await paginate(authWith(dbAdapter), {
+      model: 'user',
+      sortBy: { field: 'createdAt', direction: 'asc' },
+      cursor: paginationCursor({ id: 'u1' }),
+    }).catch((e) => e)
+
+    assert.instanceOf(error, APIError)
+    assert.equal(error.statusCode, 400)
+    assert.equal(error.body.code, 'INVALID_PAGINATION_CURSOR')
+  })
+
+  test('rejects instances using another adapter', async ({ assert }) => {
+    await assert.rejects(async () => {
+      await paginate(authWith({ id: 'kysely' }), { model: 'user' })
+    }, /not using the better-lucid adapter/)
+  })
+})
+
+test.group('lucidAdapter — joins', () => {
+  /**
+   * Mock db recording joins, selects and filters; each table answers with its
+   * own rows. A derived table (`from(query.as(alias))`) answers with the rows
+   * of its inner query.
+   */
+  function makeJoinDb(rowsByTable: Record<string, Record<string, unknown>[]>) {
+    const joins: { sql: string; bindings: unknown[] }[] = []
+    const selects: string[] = []
+    const whereIns: string[] = []
+    const wheres: string[] = []
+
+    const from = (table: any): any => {
+      if (typeof table !== 'string') {
+        selects.push(`from:${table.alias}`)
+        return from(table.table)
+      }
+      const rows = rowsByTable[table] ?? []
+      const query: any = {
+        table,
+        as: (alias: string) => Object.assign(query, { alias }),
+        where: (column: string, operator: string, value: unknown) => {
+          if (typeof column === 'string') wheres.push(`${column}:${operator}:${value}`)
+          return query
+        },
+        whereNull: () => query,
+        whereIn: (column: string, values: unknown[]) => {
+          whereIns.push(`${table}.${column}:${values.join(',')}`)
+          return query
+        },
+        orderBy: () => query,
+        limit: () => query,
+        offset: () => query,
+        select: (...columns: any[]) => {
+          selects.push(...columns.map((column) => (column.sql ? column.sql : column)))
+          return query
+        },
+        joinRaw: (sql: string, bindings: unknown[]) => {
+          joins.push({ sql, bindings })
+          return query
+        },
+        first: async () => rows[0] ?? null,
+        then: (fn: any) => Promise.resolve(rows).then(fn),
+      }
+      return query
+    }
+
+    const db = createMockDb({ from, raw: (sql: string) => ({ sql }) }) as any
+    return { db, joins, selects, whereIns, wheres }
+  }
+
+  const OPTIONS = { baseURL: 'http://localhost', advanced: { database: { joins: true } } } as any
+  const CREATED = new Date('2026-01-01T00:00:00.000Z')
+
+  const SESSION_ROW = {
+    id: 's1',
+    user_id: 'u1',
+    token: 't1',
+    expires_at: CREATED,
+    created_at: CREATED,
+    updated_at: CREATED,
+  }
+
+  const USER_ROW = {
+    id: 'u1',
+    name: 'Ada',
+    email: 'ada@example.com',
+    email_verified: true,
+    image: null,
+    created_at: CREATED,
+    updated_at: CREATED,
+  }
+
+  const ACCOUNT_ROW = {
+    id: 'a1',
+    account_id: 'ada',
+    provider_id: 'credential',
+    user_id: 'u1',
+    created_at: CREATED,
+    updated_at: CREATED,
+  }
+
+  /** Prefixes a row's columns the way the one-to-one derived table aliases them. */
+  const aliased = (alias: string, row: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [`${alias}__${key}`, value]))
+
+  test('loads a one-to-one relation through a LEFT JOIN', async ({ assert }) => {
+    const { db, joins, selects } = makeJoinDb({
+      session: [{ ...SESSION_ROW, ...aliased('join_user', USER_ROW) }],
+    })
+    const dbAdapter = lucidAdapter(db)(OPTIONS)
+
+    const session: any = await dbAdapter.findOne({
+      model: 'session',
+      where: [{ field: 'token', value: 't1' }],
+      join: { user: true },
+    })
+
+    assert.lengthOf(joins, 1)
+    assert.match(
+      joins[0].sql,
+      /^left join \(select \?\? as \?\?, .* from \?\?\) as \?\? on \?\? = \?\?$/
+    )
+    assert.includeMembers(joins[0].bindings, [
+      'email_verified',
+      'join_user__email_verified',
+      'user',
+    ])
+    assert.deepEqual(joins[0].bindings.slice(-3), [
+      'join_user',
+      'join_user.join_user__id',
+      'session.user_id',
+    ])
+    assert.deepEqual(selects, ['session.*', 'join_user.*'])
+
+    assert.equal(session.token, 't1')
+    assert.notProperty(session, 'join_user__id')
+    assert.equal(session.user.name, 'Ada')
+    assert.isTrue(session.user.emailVerified)
+  })
+
+  test('a one-to-one relation without a match is null', async ({ assert }) => {
+    const nulls = Object.fromEntries(Object.keys(USER_ROW).map((key) => [key, null]))
+    const { db } = makeJoinDb({ session: [{ ...SESSION_ROW, ...aliased('join_user', nulls) }] })
+    const dbAdapter = lucidAdapter(db)(OPTIONS)
+
+    const session: any = await dbAdapter.findOne({
+      model: 'session',
+      where: [{ field: 'token', value: 't1' }],
+      join: { user: true },
+    })
+
+    assert.isNull(session.user)
+  })
+
+  test('aggregates one-to-many relations in a LATERAL subquery on Postgres', async ({ assert }) => {
+    const { db, joins, selects } = makeJoinDb({
+      user: [
+        { ...USER_ROW, join_account: [{ ...ACCOUNT_ROW, created_at: CREATED.toISOString() }] },
+      ],
+    })
+    const dbAdapter = lucidAdapter(db, { softDelete: ['account'] })(OPTIONS)
+
+    const users: any[] = await dbAdapter.findMany({ model: 'user', join: { account: true } })
+
+    assert.include(joins[0].sql, 'left join lateral (select coalesce(json_agg(??)')
+    assert.include(joins[0].sql, 'where ?? = ?? and ?? is null limit ?')
+    assert.deepEqual(joins[0].bindings.slice(2, 7), [
+      'account',
+      'user_id',
+      'user.id',
+      'deleted_at',
+      100,
+    ])
+    assert.deepEqual(selects, ['user.*', 'join_account.join_account'])
+
+    assert.notProperty(users[0], 'join_account')
+    assert.lengthOf(users[0].account, 1)
+    assert.equal(users[0].account[0].providerId, 'credential')
+    assert.instanceOf(users[0].account[0].createdAt, Date)
+  })
+
+  test('loads one-to-many relations in one query per relation elsewhere', async ({ assert }) => {
+    const { db, joins, selects, whereIns, wheres } = makeJoinDb({
+      user: [USER_ROW, { ...USER_ROW, id: 'u2' }],
+      account: [
+        { ...ACCOUNT_ROW, join_rank: 1 },
+        { ...ACCOUNT_ROW, id: 'a2', join_rank: 2 },
+      ],
+    })
+    const dbAdapter = lucidAdapter(db, { dialect: 'sqlite' })(OPTIONS)
+
+    const users: any[] = await dbAdapter.findMany({ model: 'user', join: { account: true } })
+
+    assert.lengthOf(joins, 0)
+    assert.deepEqual(whereIns, ['account.user_id:u1,u2'])
+    // The limit per user is applied by the database, not after loading every row.
+    assert.includeMembers(selects, [
+      'account.*',
+      'row_number() over (partition by ?? order by ??) as ??',
+      'from:join_account',
+    ])
+    assert.include(wheres, 'join_rank:<=:100')
+    assert.notProperty(users[0].account[0], 'joinRank')
+    assert.notProperty(users[0].account[0], 'join_rank')
+    assert.deepEqual(
+      users[0].account.map((account: any) => account.id),
+      ['a1', 'a2']
+    )
+    assert.deepEqual(users[1].account, [])
+  })
+})
+
+test.group('lucidAdapter — retries', () => {
+  /** A driver error carrying a SQLSTATE code. */
+  const sqlError = (code: string) => Object.assign(new Error(`SQLSTATE ${code}`), { code })
+
+  /** Mock db whose queries fail with the queued errors before succeeding. */
+  function makeFailingDb(errors: Error[]) {
+    let calls = 0
+    const run = async <T>(result: T) => {
+      calls++
+      const error = errors.shift()
+      if (error) throw error
+      return result
+    }
+
+    const db = createMockDb({
+      first: () => run(null),
+      table: () => ({ insert: () => ({ returning: () => run([{ id: 'u1' }]) }) }),
+    }) as any
+    return { db, calls: () => calls }
+  }
+
+  const RETRY = { backoff: 0 }
+
+  test('re-runs reads that hit a deadlock', async ({ assert }) => {
+    const { db, calls } = makeFailingDb([sqlError('40P01'), sqlError('40001')])
+    const dbAdapter = lucidAdapter(db, { retry: RETRY })({ baseURL: 'http://localhost' } as any)
+
+    const user = await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+
+    assert.isNull(user)
+    assert.equal(calls(), 3)
+  })
+
+  test('gives up after the configured attempts', async ({ assert }) => {
+    const { db, calls } = makeFailingDb([sqlError('40P01'), sqlError('40P01')])
+    const dbAdapter = lucidAdapter(db, { retry: { ...RETRY, attempts: 2 } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    }, /SQLSTATE 40P01/)
+    assert.equal(calls(), 2)
+  })
+
+  test('does not retry other errors', async ({ assert }) => {
+    const { db, calls } = makeFailingDb([sqlError('42P01')])
+    const dbAdapter = lucidAdapter(db, { retry: RETRY })({ baseURL: 'http://localhost' } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.findOne({ model: 'user', where: [{ field: 'id', value: 'u1' }] })
+    }, /SQLSTATE 42P01/)
+    assert.equal(calls(), 1)
+  })
+
+  test('never retries a create outside a transaction', async ({ assert }) => {
+    const { db, calls } = makeFailingDb([sqlError('40001')])
+    const dbAdapter = lucidAdapter(db, { retry: RETRY })({ baseURL: 'http://localhost' } as any)
+
+    await assert.rejects(async () => {
+      await dbAdapter.create({
+        model: 'user',
+        data: { name: 'Ada', email: 'ada@example.com', emailVerified: false },
+      })
+    }, /SQLSTATE 40001/)
+    assert.equal(calls(), 1)
+  })
+
+  test('re-runs the whole transaction callback', async ({ assert }) => {
+    let attempts = 0
+    const db = createMockDb({
+      transaction: async (callback: any) => {
+        attempts++
+        const result = await callback(createMockDb())
+        if (attempts === 1) throw sqlError('40P01')
+        return result
+      },
+    }) as any
+    const dbAdapter = lucidAdapter(db, { retry: RETRY })({ baseURL: 'http://localhost' } as any)
+
+    let runs = 0
+    const result = await dbAdapter.transaction(async () => {
+      runs++
+      return 'done'
+    })
+
+    assert.equal(result, 'done')
+    assert.equal(attempts, 2)
+    assert.equal(runs, 2)
+  })
+})
+
+test.group('lucidAdapter — constraint violations', () => {
+  /** Mock db whose inserts fail with the given driver error. */
+  function makeRejectingDb(error: Record<string, unknown>) {
+    const failure = () => {
+      const rejection = Promise.reject(Object.assign(new Error(), error))
+      rejection.catch(() => {})
+      return Object.assign(rejection, { returning: () => rejection })
+    }
+    return createMockDb({ table: () => ({ insert: failure }) }) as any
+  }
+
+  const USER_DATA = { name: 'Ada', email: 'ada@example.com', emailVerified: false }
+  const SESSION_DATA = { userId: 'u1', token: 't1', expiresAt: new Date() }
+
+  test('turns a unique violation into a 409 UniqueConstraintError', async ({ assert }) => {
+    const driverError = {
+      code: '23505',
+      constraint: 'user_email_unique',
+      detail: 'Key (email)=(ada@example.com) already exists.',
+    }
+    const dbAdapter = lucidAdapter(makeRejectingDb(driverError))({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const error = await dbAdapter.create({ model: 'user', data: USER_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, UniqueConstraintError)
+    assert.instanceOf(error, ConstraintViolationError)
+    assert.equal(error.statusCode, 409)
+    assert.deepEqual(error.body, {
+      message: 'Unique constraint violated on user.email (user_email_unique)',
+      code: 'UNIQUE_VIOLATION',
+    })
+    assert.include(error, {
+      model: 'user',
+      field: 'email',
+      column: 'email',
+      constraint: 'user_email_unique',
+    })
+    assert.equal(error.cause.code, '23505')
+  })
+
+  test('maps the column back to its field for not-null violations', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(makeRejectingDb({ code: '23502', column: 'email_verified' }))({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const error = await dbAdapter.create({ model: 'user', data: USER_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, NotNullConstraintError)
+    assert.equal(error.statusCode, 422)
+    assert.include(error, { field: 'emailVerified', column: 'email_verified', constraint: null })
+  })
+
+  test('reads the column and constraint from MySQL messages', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(
+      makeRejectingDb({
+        code: 'ER_NO_REFERENCED_ROW_2',
+        message:
+          'Cannot add or update a child row: a foreign key constraint fails (`app`.`session`, ' +
+          'CONSTRAINT `session_user_id_foreign` FOREIGN KEY (`user_id`) REFERENCES `user` (`id`))',
+      }),
+      { dialect: 'mysql' }
+    )({ baseURL: 'http://localhost' } as any)
+
+    const error = await dbAdapter.create({ model: 'session', data: SESSION_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, ForeignKeyConstraintError)
+    assert.equal(error.statusCode, 422)
+    assert.include(error, {
+      model: 'session',
+      field: 'userId',
+      column: 'user_id',
+      constraint: 'session_user_id_foreign',
+    })
+  })
+
+  test('reads the MSSQL error number tedious reports under EREQUEST', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(
+      makeRejectingDb({
+        code: 'EREQUEST',
+        number: 2627,
+        message:
+          "Violation of UNIQUE KEY constraint 'user_email_unique'. Cannot insert duplicate key " +
+          "in object 'dbo.user'. The duplicate key value is (ada@example.com).",
+      }),
+      { dialect: 'mssql' }
+    )({ baseURL: 'http://localhost' } as any)
+
+    const error = await dbAdapter.create({ model: 'user', data: USER_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, UniqueConstraintError)
+    assert.include(error, {
+      model: 'user',
+      field: 'email',
+      column: 'email',
+      constraint: 'user_email_unique',
+    })
+  })
+
+  test('reads the column of an MSSQL foreign key violation from the constraint', async ({
+    assert,
+  }) => {
+    const dbAdapter = lucidAdapter(
+      makeRejectingDb({
+        code: 'EREQUEST',
+        number: 547,
+        message:
+          'The INSERT statement conflicted with the FOREIGN KEY constraint ' +
+          '"session_user_id_foreign". The conflict occurred in database "app", ' +
+          'table "dbo.user", column \'id\'.',
+      }),
+      { dialect: 'mssql' }
+    )({ baseURL: 'http://localhost' } as any)
+
+    const error = await dbAdapter.create({ model: 'session', data: SESSION_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, ForeignKeyConstraintError)
+    assert.include(error, { field: 'userId', column: 'user_id' })
+  })
+
+  test('reads the kind of a node-sqlite3 violation from the message', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(
+      makeRejectingDb({
+        code: 'SQLITE_CONSTRAINT',
+        message: 'SQLITE_CONSTRAINT: UNIQUE constraint failed: user.email',
+      }),
+      { dialect: 'sqlite' }
+    )({ baseURL: 'http://localhost' } as any)
+
+    const error = await dbAdapter.create({ model: 'user', data: USER_DATA }).catch((e) => e)
+
+    assert.instanceOf(error, UniqueConstraintError)
+    assert.include(error, { field: 'email', constraint: null })
+  })
+
+  test('passes other errors through untouched', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(makeRejectingDb({ code: '42P01', message: 'no such table' }))({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const error = await dbAdapter.create({ model: 'user', data: USER_DATA }).catch((e) => e)
+
+    assert.notInstanceOf(error, ConstraintViolationError)
+    assert.equal(error.code, '42P01')
+  })
+})
+
+test.group('lucidAdapter — timeouts', () => {
+  /** Mock db recording the timeout set on each query builder. */
+  function makeTimedDb(connection = postgresConnection) {
+    const timeouts: string[] = []
+    const query: any = {
+      where: () => query,
+      first: async () => null,
+      delete: async () => 0,
+      then: (fn: any) => Promise.resolve([]).then(fn),
+      timeout: (ms: number, { cancel }: { cancel: boolean }) => {
+        timeouts.push(`${ms}:${cancel}`)
+        return query
+      },
+    }
+    return { db: createMockDb({ from: () => query, connection }) as any, timeouts }
+  }
+
+  test('gives reads and writes their own limits', async ({ assert }) => {
+    const { db, timeouts } = makeTimedDb()
+    const dbAdapter = lucidAdapter(db, { timeouts: { read: 2000 } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+    await dbAdapter.delete({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(timeouts, ['2000:true', '10000:true'])
+  })
+
+  test('does not cancel queries where the dialect cannot', async ({ assert }) => {
+    const { db, timeouts } = makeTimedDb(() => ({ dialect: { name: 'mssql' } }))
+    const dbAdapter = lucidAdapter(db, { timeouts: true })({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(timeouts, ['5000:false'])
+  })
+
+  test('leaves queries untimed by default', async ({ assert }) => {
+    const { db, timeouts } = makeTimedDb()
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    await dbAdapter.findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+
+    assert.deepEqual(timeouts, [])
+  })
+
+  test('throws a QueryTimeoutError when a query times out', async ({ assert }) => {
+    const knexError = Object.assign(
+      new Error('Defined query timeout of 2000ms exceeded when running query.'),
+      { name: 'KnexTimeoutError' }
+    )
+    const query: any = {
+      where: () => query,
+      timeout: () => query,
+      first: async () => {
+        throw knexError
+      },
+    }
+    const db = createMockDb({ from: () => query }) as any
+    const dbAdapter = lucidAdapter(db, { timeouts: { read: 2000 } })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const error: any = await dbAdapter
+      .findOne({ model: 'session', where: [{ field: 'token', value: 't1' }] })
+      .catch((e) => e)
+
+    assert.instanceOf(error, QueryTimeoutError)
+    assert.equal(error.statusCode, 503)
+    assert.equal(error.message, 'findOne on session timed out after 2000ms')
+    assert.include(error, { model: 'session', operation: 'findOne', timeout: 2000 })
+    assert.strictEqual(error.cause, knexError)
+  })
+})
+
+test.group('lucidAdapter — pruning', () => {
+  /**
+   * Mock db recording the queries per table. `select` hands out the batches
+   * queued for the table, then an empty one.
+   */
+  function makePruneDb(batches: Record<string, string[][]> = {}, deletes = 2) {
+    const calls: string[] = []
+
+    const db = createMockDb({
+      from: (table: string) => {
+        const query: any = {
+          where: (field: any, ...args: any[]) => {
+            if (typeof field === 'function') field(query)
+            else calls.push(`${table}:where:${field}:${args.join(':')}`)
+            return query
+          },
+          orWhere: (field: string, ...args: any[]) => {
+            calls.push(`${table}:orWhere:${field}:${args.join(':')}`)
+            return query
+          },
+          whereIn: (field: string, ids: string[]) => {
+            calls.push(`${table}:whereIn:${field}:${ids.join(',')}`)
+            return query
+          },
+          select: () => query,
+          limit: (limit: number) => {
+            calls.push(`${table}:limit:${limit}`)
+            return query
+          },
+          count: async () => [{ total: '4' }],
+          delete: async () => {
+            calls.push(`${table}:delete`)
+            return deletes
+          },
+          then: (fn: any) =>
+            Promise.resolve((batches[table]?.shift() ?? []).map((id) => ({ id }))).then(fn),
+        }
+        return query
+      },
+    }) as any
+
+    return { db, calls }
+  }
+
+  const PLUGIN = {
+    id: 'organization',
+    schema: {
+      invitation: {
+        fields: { email: { type: 'string' }, expiresAt: { type: 'date' } },
+      },
+      member: { fields: { role: { type: 'string' } } },
+    },
+  }
+
+  test('deletes expired sessions and verification rows in batches', async ({ assert }) => {
+    const { db, calls } = makePruneDb({ session: [['s1', 's2'], ['s3']], verification: [] })
+    const dbAdapter = lucidAdapter(db, { dialect: 'sqlite' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const pruned = await (dbAdapter.options as any).pruneExpired({ batchSize: 2 })
+
+    assert.deepEqual(pruned, { session: 4, verification: 0 })
+    assert.isTrue(calls[0].startsWith('session:where:expires_at:<:'))
+    assert.deepEqual(
+      calls.filter((call) => call.includes('whereIn') || call.includes('limit')),
+      [
+        'session:limit:2',
+        'session:whereIn:id:s1,s2',
+        'session:limit:2',
+        'session:whereIn:id:s3',
+        'verification:limit:2',
+      ]
+    )
+  })
+
+  test('stops when a full batch deletes nothing', async ({ assert }) => {
+    // The same rows come back for every select, as under an RLS delete policy.
+    const batch = ['s1', 's2']
+    const { db, calls } = makePruneDb({ session: [batch, batch, batch] }, 0)
+    const dbAdapter = lucidAdapter(db, { dialect: 'sqlite' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const pruned = await (dbAdapter.options as any).pruneExpired({ batchSize: 2 })
+
+    assert.deepEqual(pruned, { session: 0, verification: 0 })
+    assert.lengthOf(
+      calls.filter((call) => call === 'session:delete'),
+      1
+    )
+  })
+
+  test('applies the age thresholds to the expiry cutoff', async ({ assert }) => {
+    const { db, calls } = makePruneDb()
+    const dbAdapter = lucidAdapter(db, { dialect: 'sqlite' })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    const before = Date.now()
+    await (dbAdapter.options as any).pruneExpired({
+      olderThan: { session: 7 * 24 * 60 * 60 * 1000 },
+    })
+
+    const [session, verification] = calls
+      .filter((call) => call.includes(':where:'))
+      .map((call) => Date.parse(call.split(':<:')[1]))
+    assert.approximately(session, before - 7 * 24 * 60 * 60 * 1000, 1000)
+    assert.approximately(verification, before, 1000)
+  })
+
+  test('dry runs count the expired rows without deleting', async ({ assert }) => {
+    const { db, calls } = makePruneDb({ session: [['s1']] })
+    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
+
+    const pruned = await (dbAdapter.options as any).pruneExpired({ dryRun: true })
+
+    assert.deepEqual(pruned, { session: 4, verification: 4 })
+    assert.isFalse(calls.some((call) => call.endsWith(':delete')))
+  })
+
+  test('soft-deleted verification rows count as used', async ({ assert }) => {
+    const { db, calls } = makePruneDb()
+    const dbAdapter = lucidAdapter(db, { dialect: 'sqlite', softDelete: ['verification'] })({
+      baseURL: 'http://localhost',
+    } as any)
+
+    await (dbAdapter.options as any).pruneExpired({})
+
+    assert.isTrue(calls.some((call) => call.startsWith('verification:orWhere:deleted_at:<:')))
+    assert.isFalse(calls.some((call) => call.startsWith('session:orWhere')))
+  })
 
-test.group('lucidAdapter — delete', () => {
-  test('delete resolves without error', async ({ assert }) => {
-    const db = createMockDb() as any
-    const dbAdapter = lucidAdapter(db)({ baseURL: 'http://localhost' } as any)
-    await assert.doesNotReject(() =>
-      dbAdapter.delete({ model: 'session', where: [{ field: 'id', value: 'abc' }] })
+  test('prunes plugin models with an expiresAt field only when asked', async ({ assert }) => {
+    const options = { baseURL: 'http://localhost', plugins: [PLUGIN] } as any
+
+    const skipped = makePruneDb()
+    assert.deepEqual(
+      await (lucidAdapter(skipped.db)(options).options as any).pruneExpired({ dryRun: true }),
+      { session: 4, verification: 4 }
+    )
+
+    const pruned = makePruneDb({ invitation: [['i1']] })
+    assert.deepEqual(
+      await (lucidAdapter(pruned.db)(options).options as any).pruneExpired({ plugins: true }),
+      { session: 0, verification: 0, invitation: 2 }
     )
+    assert.include(pruned.calls, 'invitation:whereIn:id:i1')
   })
 })
 
@@ -243,6 +2998,7 @@ function makeSchemaDb(existingTables: string[], existingColumns: Record<string,
     },
     table: () => ({ insert: () => ({ returning: async () => [null] }) }),
     transaction: async (cb: any) => cb({}),
+    connection: postgresConnection,
   } as any
 }
 
@@ -471,3 +3227,623 @@ test.group('lucidAdapter — createSchema (incremental / existing DB)', () => {
     assert.notInclude(result.code.replace(/\/\/.*/g, ''), 'dropColumn')
   })
 })
+
+test.group('lucidAdapter — createSchema (connection)', () => {
+  test('tags the migration class with the configured connection', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      connection: 'auth',
+    })
+
+    assert.include(code, "  connection = 'auth'")
+    assert.include(code, 'node ace migration:run --connection=auth')
+    assert.isBelow(code.indexOf("connection = 'auth'"), code.indexOf('async up()'))
+  })
+
+  test('omits the connection for the default connection', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA)
+
+    assert.notInclude(code, 'connection =')
+  })
+})
+
+test.group('lucidAdapter — generateMigration', () => {
+  const options = { baseURL: 'http://localhost' } as any
+
+  test('names the default migration file after --name', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(makeSchemaDb([]))(options)
+
+    const result = await (dbAdapter.options as any).generateMigration({ name: 'add_sso' })
+
+    assert.match(result.path, /^database\/migrations\/\d{14}_add_sso\.ts$/)
+    assert.isFalse(result.inSync)
+    assert.include(result.code, "createTable('user'")
+  })
+
+  test('an explicit file wins over the name', async ({ assert }) => {
+    const dbAdapter = lucidAdapter(makeSchemaDb([]))(options)
+
+    const { path } = await (dbAdapter.options as any).generateMigration({
+      file: 'database/migrations/auth.ts',
+      name: 'ignored',
+    })
+
+    assert.equal(path, 'database/migrations/auth.ts')
+  })
+
+  test('reports a database that already matches the schema', async ({ assert }) => {
+    const existing = Object.fromEntries(
+      Object.entries(getAuthTables(options)).map(([model, table]) => [
+        model,
+        [
+          'id',
+          ...Object.entries(table.fields).map(([key, field]) =>
+            adapterTestHelpers.camelToSnake(field.fieldName ?? key)
+          ),
+        ],
+      ])
+    )
+    const dbAdapter = lucidAdapter(makeSchemaDb(Object.keys(existing), existing))(options)
+
+    const result = await (dbAdapter.options as any).generateMigration()
+
+    assert.isTrue(result.inSync)
+    assert.include(result.code, 'No changes needed')
+  })
+
+  test('leaves out the session table when sessions live in secondaryStorage', async ({
+    assert,
+  }) => {
+    const secondaryStorage = { get: async () => null, set: async () => {}, delete: async () => {} }
+    const dbAdapter = lucidAdapter(makeSchemaDb([]))({ ...options, secondaryStorage })
+
+    const { code } = await (dbAdapter.options as any).generateMigration()
+
+    assert.include(code, "createTable('user'")
+    assert.notInclude(code, "createTable('session'")
+  })
+
+  test('keeps the session table when storeSessionInDatabase is set', async ({ assert }) => {
+    const secondaryStorage = { get: async () => null, set: async () => {}, delete: async () => {} }
+    const dbAdapter = lucidAdapter(makeSchemaDb([]))({
+      ...options,
+      secondaryStorage,
+      session: { storeSessionInDatabase: true },
+    })
+
+    const { code } = await (dbAdapter.options as any).generateMigration()
+
+    assert.include(code, "createTable('session'")
+  })
+})
+
+test.group('lucidAdapter — createSchema (database schema)', () => {
+  test('creates the schema and builds fresh tables inside it', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      schema: 'auth',
+    })
+
+    assert.isBelow(
+      code.indexOf("this.schema.createSchemaIfNotExists('auth')"),
+      code.indexOf("this.schema.withSchema('auth').createTable('user'")
+    )
+    assert.include(code, ".references('id').inTable('auth.user')")
+    assert.include(code, "this.schema.withSchema('auth').dropTableIfExists('session')")
+    assert.notInclude(code, 'dropSchema')
+  })
+
+  test('introspects the configured schema', async ({ assert }) => {
+    const filters: string[] = []
+    const query: any = {
+      where: (column: string, value: string) => {
+        filters.push(`${column}=${value}`)
+        return query
+      },
+      whereIn: () => query,
+      select: () => query,
+      then: (fn: any) => Promise.resolve([{ table_name: 'user' }]).then(fn),
+    }
+    const db = { from: () => query } as any
+
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      schema: 'auth',
+    })
+
+    assert.include(filters, 'table_schema=auth')
+    assert.notInclude(filters, 'table_schema=public')
+    assert.include(code, "this.schema.withSchema('auth').table('user'")
+    assert.notInclude(code, 'createSchemaIfNotExists')
+  })
+})
+
+test.group('lucidAdapter — createSchema (table naming)', () => {
+  test('prefixes created tables and foreign-key targets', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tablePrefix: 'auth_',
+    })
+
+    assert.include(code, "createTable('auth_user'")
+    assert.include(code, "createTable('auth_session'")
+    assert.include(code, ".references('id').inTable('auth_user')")
+    assert.include(code, "dropTableIfExists('auth_verification')")
+  })
+
+  test('uses explicit table names for mapped models', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tablePrefix: 'auth_',
+      tables: { user: 'auth_users' },
+    })
+
+    assert.include(code, "createTable('auth_users'")
+    assert.include(code, ".inTable('auth_users')")
+    assert.include(code, "createTable('auth_account'")
+  })
+
+  test('a legacy unprefixed user table does not count as existing', async ({ assert }) => {
+    const db = makeSchemaDb(['user', 'users'])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tablePrefix: 'auth_',
+    })
+
+    assert.include(code, "createTable('auth_user'")
+    assert.notInclude(code, "table('user'")
+  })
+
+  test('diffs against the prefixed tables once they exist', async ({ assert }) => {
+    const db = makeSchemaDb(['auth_user', 'auth_session', 'auth_account', 'auth_verification'], {
+      auth_user: ['id', 'name', 'email', 'email_verified', 'image', 'created_at', 'updated_at'],
+      auth_session: ['id', 'user_id', 'token', 'expires_at', 'created_at', 'updated_at'],
+      auth_account: ['id'],
+      auth_verification: ['id'],
+    })
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tablePrefix: 'auth_',
+    })
+
+    assert.include(code, 'No changes needed')
+  })
+
+  test('resolves references given by custom modelName', ({ assert }) => {
+    const schema: any = {
+      ...CORE_SCHEMA,
+      user: { ...CORE_SCHEMA.user, modelName: 'members' },
+    }
+    const chain = adapterTestHelpers.buildColumnChain(
+      'userId',
+      { type: 'string', references: { model: 'members', field: 'id' } } as any,
+      schema,
+      { dialect: 'postgres', tables: { user: 'auth_members' } }
+    )
+
+    assert.include(chain, ".inTable('auth_members')")
+  })
+})
+
+test.group('lucidAdapter — createSchema (naming strategy)', () => {
+  test('camelCase strategy generates camelCase columns', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      namingStrategy: 'camelCase',
+    })
+
+    assert.include(code, "boolean('emailVerified')")
+    assert.include(code, "text('userId').notNullable().references('id')")
+  })
+
+  test('diffs existing columns with the same strategy', async ({ assert }) => {
+    const db = makeSchemaDb(['user', 'session', 'account', 'verification'], {
+      user: ['id', 'name', 'email', 'emailVerified', 'image', 'createdAt', 'updatedAt'],
+      session: ['id', 'userId', 'token', 'expiresAt', 'createdAt', 'updatedAt'],
+      account: ['id'],
+      verification: ['id'],
+    })
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      namingStrategy: 'camelCase',
+    })
+
+    assert.include(code, 'No changes needed')
+  })
+})
+
+test.group('lucidAdapter — createSchema (native arrays)', () => {
+  const ARRAY_FIELDS = {
+    tags: { type: 'string[]', required: false },
+    scores: { type: 'number[]', required: false },
+  } as any
+
+  test('emits text[] and integer[] columns', ({ assert }) => {
+    const options = { dialect: 'postgres', nativeArrays: true } as const
+    const tags = adapterTestHelpers.buildColumnChain('tags', ARRAY_FIELDS.tags, {}, options)
+    const scores = adapterTestHelpers.buildColumnChain('scores', ARRAY_FIELDS.scores, {}, options)
+
+    assert.equal(tags, "specificType('tags', 'text[]').nullable()")
+    assert.equal(scores, "specificType('scores', 'integer[]').nullable()")
+  })
+
+  test('keeps JSON text columns when disabled', ({ assert }) => {
+    const chain = adapterTestHelpers.buildColumnChain(
+      'tags',
+      ARRAY_FIELDS.tags,
+      {},
+      {
+        dialect: 'postgres',
+      }
+    )
+
+    assert.equal(chain, "text('tags').nullable()")
+  })
+})
+
+test.group('lucidAdapter — createSchema (id strategy)', () => {
+  test('uuid ids default to gen_random_uuid() and type their foreign keys', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      idStrategy: 'uuid',
+    })
+
+    assert.include(code, "uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))")
+    assert.include(code, "uuid('user_id').notNullable().references('id').inTable('user')")
+  })
+
+  test('uuid ids on mysql have no database default', ({ assert }) => {
+    const chain = adapterTestHelpers.buildColumnChain(
+      'id',
+      CORE_SCHEMA.user.fields.id,
+      {},
+      {
+        dialect: 'mysql',
+        idStrategy: 'uuid',
+      }
+    )
+
+    assert.equal(chain, "uuid('id').primary().notNullable()")
+  })
+
+  test('serial ids use bigIncrements and bigInteger foreign keys', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      idStrategy: 'serial',
+    })
+
+    assert.include(code, "bigIncrements('id').notNullable()")
+    assert.notInclude(code, "bigIncrements('id').primary()")
+    assert.include(code, "bigInteger('user_id').notNullable().references('id')")
+  })
+
+  test('serial foreign keys are unsigned on mysql', ({ assert }) => {
+    const chain = adapterTestHelpers.buildColumnChain(
+      'userId',
+      CORE_SCHEMA.session.fields.userId,
+      CORE_SCHEMA,
+      { dialect: 'mysql', idStrategy: 'serial' }
+    )
+
+    assert.include(chain, "bigInteger('user_id').unsigned().notNullable()")
+  })
+
+  test('emits an id column when the schema leaves it implicit', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const schema: any = {
+      verification: { modelName: 'verification', fields: { value: { type: 'string' } } },
+    }
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, schema, undefined, {
+      dialect: 'postgres',
+    })
+
+    assert.include(code, "text('id').primary().notNullable()")
+  })
+})
+
+test.group('lucidAdapter — createSchema (soft delete)', () => {
+  test('adds an indexed deleted_at column to soft-deleted models', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      softDelete: ['user'],
+    })
+
+    const userBlock = code.slice(
+      code.indexOf("createTable('user'"),
+      code.indexOf("createTable('session'")
+    )
+    assert.include(userBlock, "timestamp('deleted_at', { useTz: true }).nullable().index()")
+    assert.notInclude(code.slice(code.indexOf("createTable('session'")), 'deleted_at')
+  })
+
+  test('adds the column to existing tables', async ({ assert }) => {
+    const db = makeSchemaDb(['user', 'session', 'account', 'verification'], {
+      user: ['id', 'name', 'email', 'email_verified', 'image', 'created_at', 'updated_at'],
+      session: ['id', 'user_id', 'token', 'expires_at', 'created_at', 'updated_at'],
+      account: ['id'],
+      verification: ['id'],
+    })
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      softDelete: ['session'],
+    })
+
+    assert.include(code, "this.schema.table('session'")
+    assert.include(code, 'deleted_at')
+  })
+})
+
+test.group('lucidAdapter — createSchema (audit log)', () => {
+  test('creates the audit log table after the auth tables', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      auditTable: 'auth_audit_log',
+    })
+
+    const block = code.slice(code.indexOf("createTable('auth_audit_log'"))
+    assert.isAbove(
+      code.indexOf("createTable('auth_audit_log'"),
+      code.indexOf("createTable('verification'")
+    )
+    assert.include(block, "text('model').notNullable().index()")
+    assert.include(block, "jsonb('record_ids').notNullable()")
+    assert.include(block, "jsonb('changes').nullable()")
+    assert.include(code, "dropTableIfExists('auth_audit_log')")
+  })
+
+  test('adds the table to an existing database', async ({ assert }) => {
+    const db = makeSchemaDb(['user', 'session', 'account', 'verification'], {
+      user: ['id', 'name', 'email', 'email_verified', 'image', 'created_at', 'updated_at'],
+      session: ['id', 'user_id', 'token', 'expires_at', 'created_at', 'updated_at'],
+      account: ['id'],
+      verification: ['id'],
+    })
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      auditTable: 'auth_audit_log',
+    })
+
+    assert.include(code, "createTable('auth_audit_log'")
+    assert.notInclude(code, "createTable('user'")
+  })
+})
+
+test.group('lucidAdapter — createSchema (tenant scoping)', () => {
+  test('adds the tenant column and makes uniques per tenant', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tenant: { models: ['user'] },
+    })
+
+    const userBlock = code.slice(
+      code.indexOf("createTable('user'"),
+      code.indexOf("createTable('session'")
+    )
+    assert.include(userBlock, "text('tenant_id').notNullable().index()")
+    assert.include(userBlock, "string('email').notNullable()\n")
+    assert.include(userBlock, "table.unique(['tenant_id', 'email'])")
+    assert.notInclude(code.slice(code.indexOf("createTable('session'")), 'tenant_id')
+  })
+
+  const EXISTING = {
+    user: ['id', 'name', 'email', 'email_verified', 'image', 'created_at', 'updated_at'],
+    session: ['id', 'user_id', 'token', 'expires_at', 'created_at', 'updated_at'],
+    account: ['id'],
+    verification: ['id'],
+  }
+
+  test('replaces the plain unique when adding the column to an existing table', async ({
+    assert,
+  }) => {
+    const db = makeSchemaDb(Object.keys(EXISTING), EXISTING)
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tenant: { column: 'org_id', type: 'number', models: ['user'], backfill: 1 },
+    })
+
+    assert.include(code, "table.dropUnique(['email'])\n      table.unique(['org_id', 'email'])")
+    assert.include(code, "table.dropColumn('org_id')")
+  })
+
+  test('backfills existing rows before making the column required', async ({ assert }) => {
+    const db = makeSchemaDb(Object.keys(EXISTING), EXISTING)
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      schema: 'auth',
+      tenant: { column: 'org_id', type: 'number', models: ['user'], backfill: 1 },
+    })
+
+    const added = code.indexOf("integer('org_id').nullable().index()")
+    const filled = code.indexOf("await db.from('auth.user').update({ org_id: 1 })")
+    const required = code.indexOf("integer('org_id').notNullable().alter()")
+    assert.isAbove(added, -1)
+    assert.isAbove(filled, added)
+    assert.isAbove(required, filled)
+  })
+
+  test('writes a string backfill tenant as an escaped literal', async ({ assert }) => {
+    const db = makeSchemaDb(Object.keys(EXISTING), EXISTING)
+    const backfill = "o'rg\\1\nnext"
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      tenant: { column: 'org_id', models: ['user'], backfill },
+    })
+
+    const literal = code.match(/update\(\{ org_id: (.*) \}\)/)![1]
+    assert.equal(JSON.parse(literal), backfill)
+  })
+
+  test('requires a backfill tenant to add the column to an existing table', async ({ assert }) => {
+    const db = makeSchemaDb(Object.keys(EXISTING), EXISTING)
+
+    await assert.rejects(async () => {
+      await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+        dialect: 'postgres',
+        tenant: { models: ['user'] },
+      })
+    }, /needs tenant.backfill/)
+  })
+})
+
+test.group('lucidAdapter — createSchema (row-level security)', () => {
+  test('enables RLS with a baseline policy per table', async ({ assert }) => {
+    const db = makeSchemaDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'postgres',
+      schema: 'auth',
+      tenant: { models: ['user'] },
+      rlsPolicies: { role: 'app_user' },
+    })
+
+    assert.include(code, 'this.schema.raw(`alter table "auth"."user" enable row level security`)')
+    assert.include(
+      code,
+      'create policy "user_better_auth" on "auth"."user" to "app_user" ' +
+        `using ("tenant_id"::text = current_setting('app.tenant_id', true)) ` +
+        `with check ("tenant_id"::text = current_setting('app.tenant_id', true))`
+    )
+    assert.include(
+      code,
+      'create policy "session_better_auth" on "auth"."session" to "app_user" using (true) with check (true)'
+    )
+  })
+})
+
+test.group('lucidAdapter — createSchema (dialects)', () => {
+  /**
+   * Builds a mock db that records which catalog it was introspected through.
+   * `sqlite_master` answers the table query, and the column query once
+   * `pragma_table_info` is joined in.
+   */
+  function makeCatalogDb(existingTables: string[], existingColumns: Record<string, string[]> = {}) {
+    const catalogs: string[] = []
+
+    function mockQuery(table: string) {
+      let rows: any[] =
+        table === 'information_schema.columns'
+          ? Object.entries(existingColumns).flatMap(([tbl, cols]) =>
+              cols.map((col) => ({ table_name: tbl, column_name: col }))
+            )
+          : existingTables.map((t) => ({ table_name: t }))
+
+      const q: any = {
+        where: () => q,
+        whereNot: () => q,
+        whereIn: () => q,
+        whereRaw: (sql: string) => {
+          catalogs.push(`${table}:${sql}`)
+          return q
+        },
+        joinRaw: () => {
+          rows = Object.entries(existingColumns).flatMap(([tbl, cols]) =>
+            cols.map((col) => ({ table_name: tbl, column_name: col }))
+          )
+          catalogs.push(`${table}:pragma_table_info`)
+          return q
+        },
+        select: () => q,
+        then: (fn: any) => Promise.resolve(rows).then(fn),
+      }
+      return q
+    }
+
+    const db = {
+      from: (table: string) => {
+        catalogs.push(table)
+        return mockQuery(table)
+      },
+    } as any
+
+    return { db, catalogs }
+  }
+
+  test('mysql introspects the current database and emits json / varchar keys', async ({
+    assert,
+  }) => {
+    const schema: any = {
+      ...CORE_SCHEMA,
+      user: {
+        ...CORE_SCHEMA.user,
+        fields: { ...CORE_SCHEMA.user.fields, metadata: { type: 'json', required: false } },
+      },
+    }
+    const { db, catalogs } = makeCatalogDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, schema, undefined, {
+      dialect: 'mysql',
+    })
+
+    assert.include(catalogs, 'information_schema.tables:table_schema = database()')
+    assert.include(code, "string('id').primary()")
+    assert.include(code, "json('metadata')")
+    assert.include(code, "string('user_id').notNullable().references('id')")
+    assert.include(code, "timestamp('created_at')")
+    assert.notInclude(code, 'useTz')
+  })
+
+  test('sqlite introspects sqlite_master and pragma_table_info', async ({ assert }) => {
+    const { db, catalogs } = makeCatalogDb(['user', 'session', 'account', 'verification'], {
+      user: ['id', 'name', 'email', 'email_verified', 'image', 'created_at', 'updated_at'],
+      session: ['id', 'user_id', 'token', 'expires_at', 'created_at', 'updated_at'],
+      account: ['id'],
+      verification: ['id'],
+    })
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'sqlite',
+    })
+
+    assert.deepEqual(catalogs, [
+      'sqlite_master',
+      'sqlite_master',
+      'sqlite_master:pragma_table_info',
+    ])
+    assert.include(code, 'No changes needed')
+  })
+
+  test('mssql introspects the default schema and keeps zoned timestamps', async ({ assert }) => {
+    const { db, catalogs } = makeCatalogDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'mssql',
+    })
+
+    assert.include(catalogs, 'information_schema.tables:table_schema = schema_name()')
+    assert.include(code, "timestamp('created_at', { useTz: true })")
+    assert.include(code, "string('id').primary()")
+  })
+
+  test('postgres keeps jsonb and text keys', ({ assert }) => {
+    const chain = adapterTestHelpers.buildColumnChain(
+      'metadata',
+      { type: 'json', required: false } as any,
+      CORE_SCHEMA
+    )
+    const idChain = adapterTestHelpers.buildColumnChain(
+      'id',
+      { type: 'string', required: true } as any,
+      CORE_SCHEMA
+    )
+
+    assert.equal(chain, "jsonb('metadata').nullable()")
+    assert.equal(idChain, "text('id').primary().notNullable()")
+  })
+
+  test('row-level security policies are Postgres-only', async ({ assert }) => {
+    const { db } = makeCatalogDb([])
+    const { code } = await adapterTestHelpers.generateLucidMigration(db, CORE_SCHEMA, undefined, {
+      dialect: 'sqlite',
+      rlsPolicies: {},
+    })
+
+    assert.notInclude(code, 'row level security')
+  })
+})
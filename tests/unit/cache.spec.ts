@@ -0,0 +1,87 @@
+import { test } from '@japa/runner'
+import { adonisCacheStore, memoryStore, redisStore } from '../../src/cache.js'
+
+test.group('memoryStore', () => {
+  test('returns stored values until they expire', async ({ assert }) => {
+    const store = memoryStore()
+
+    await store.set('a', { id: 1 }, 60_000)
+    await store.set('b', { id: 2 }, -1)
+
+    assert.deepEqual(await store.get('a'), { id: 1 })
+    assert.isUndefined(await store.get('b'))
+  })
+
+  test('evicts the least recently read entry', async ({ assert }) => {
+    const store = memoryStore({ maxEntries: 2 })
+
+    await store.set('a', 1, 60_000)
+    await store.set('b', 2, 60_000)
+    await store.get('a')
+    await store.set('c', 3, 60_000)
+
+    assert.equal(await store.get('a'), 1)
+    assert.isUndefined(await store.get('b'))
+    assert.equal(await store.get('c'), 3)
+  })
+
+  test('deletes keys', async ({ assert }) => {
+    const store = memoryStore()
+
+    await store.set('a', 1, 60_000)
+    await store.delete(['a', 'missing'])
+
+    assert.isUndefined(await store.get('a'))
+  })
+})
+
+test.group('redisStore', () => {
+  test('stores JSON with a millisecond expiry', async ({ assert }) => {
+    const calls: unknown[][] = []
+    const values = new Map<string, string>()
+    const redis = {
+      get: async (key: string) => values.get(key) ?? null,
+      set: async (key: string, value: string, ...args: unknown[]) => {
+        calls.push(['set', key, value, ...args])
+        values.set(key, value)
+      },
+      del: async (...keys: string[]) => {
+        calls.push(['del', ...keys])
+      },
+    }
+    const store = redisStore(redis)
+
+    await store.set('a', { id: 1 }, 5000)
+    await store.delete([])
+    await store.delete(['a', 'b'])
+
+    assert.deepEqual(await store.get('a'), { id: 1 })
+    assert.isUndefined(await store.get('missing'))
+    assert.deepEqual(calls, [
+      ['set', 'a', '{"id":1}', 'PX', 5000],
+      ['del', 'a', 'b'],
+    ])
+  })
+})
+
+test.group('adonisCacheStore', () => {
+  test('maps onto the cache service API', async ({ assert }) => {
+    const calls: unknown[] = []
+    const cache = {
+      get: async ({ key }: { key: string }) => (key === 'a' ? { id: 1 } : null),
+      set: async (options: unknown) => calls.push(['set', options]),
+      deleteMany: async (options: unknown) => calls.push(['deleteMany', options]),
+    }
+    const store = adonisCacheStore(cache)
+
+    await store.set('a', { id: 1 }, 5000)
+    await store.delete(['a'])
+
+    assert.deepEqual(await store.get('a'), { id: 1 })
+    assert.isUndefined(await store.get('b'))
+    assert.deepEqual(calls, [
+      ['set', { key: 'a', value: { id: 1 }, ttl: 5000 }],
+      ['deleteMany', { keys: ['a'] }],
+    ])
+  })
+})